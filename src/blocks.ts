@@ -15,27 +15,58 @@ import {
 
 import {
   ICAL_ID_PROPERTY,
+  ICAL_RECURRENCE_ID_PROPERTY,
   ICAL_DESC_PROPERTY,
   ICAL_LOCATION_PROPERTY,
   ICAL_URL_PROPERTY,
   ICAL_MEETING_URL_PROPERTY,
+  ICAL_DIAL_IN_PROPERTY,
+  ICAL_PASSCODE_PROPERTY,
   ICAL_ATTENDEES_PROPERTY,
+  ICAL_DECLINED_PROPERTY,
+  ICAL_ORGANIZER_PROPERTY,
+  ICAL_START_PROPERTY,
   ICAL_END_PROPERTY,
+  ICAL_DURATION_PROPERTY,
+  ICAL_STATUS_PROPERTY,
+  ICAL_TRANSPARENCY_PROPERTY,
+  ICAL_DUE_PROPERTY,
+  ICAL_PRIORITY_PROPERTY,
+  ICAL_COMPLETED_PROPERTY,
+  ICAL_SOURCE_PROPERTY,
+  ICAL_PROPERTY_PREFIX,
+  IMPORT_SOURCE,
+  CANCELLED_TAG,
+  TENTATIVE_TAG,
   DEFAULT_BATCH_SIZE,
   DEFAULT_BATCH_DELAY_MS,
   DEFAULT_TITLE_PREFIX,
+  DEFAULT_TIME_FORMAT,
+  DEFAULT_CANCELLED_EVENTS,
+  DEFAULT_TASKS_PAGE,
 } from "./constants";
 
 import {
   type ICalEvent,
+  type ICalTodo,
+  type ICalAttendee,
   type ICalCalendar,
+  type TimeFormat,
+  type CancelledEventsMode,
   formatRoamDate,
+  formatTime,
+  formatDuration,
+  getEventInstanceId,
   safeText,
   sanitizeEventId,
   sortEventsByDateDescending,
   filterExcludedEvents,
+  redactPrivateEvent,
+  redactPrivateTodo,
+  shouldExcludeEvent,
 } from "./ical";
 
+import { descriptionToBlocks } from "./description";
 import { logDebug, logInfo } from "./logger";
 
 /**
@@ -57,6 +88,14 @@ type BlockPayload = {
   children: BlockPayload[];
 };
 
+/**
+ * Minimal block tree shape shared by existing Roam blocks and new payloads.
+ */
+type TreeNode = {
+  text: string;
+  children?: TreeNode[];
+};
+
 type EventWithBlock = {
   event: ICalEvent;
   calendarName: string;
@@ -72,6 +111,21 @@ export type BatchConfig = {
   excludePatterns: RegExp[];
   titlePrefix: string;
   attendeeAliases: Map<string, string>;
+  /** Map of category aliases (Category -> Page) */
+  categoryAliases?: Map<string, string>;
+  /** IANA timezone used for date links and times (defaults to local time) */
+  timeZone?: string;
+  /** Clock format for event times */
+  timeFormat?: TimeFormat;
+  /** How STATUS:CANCELLED events are written */
+  cancelledEvents?: CancelledEventsMode;
+  /** Name of the page (under prefix/calendar) that holds tasks; empty to skip tasks */
+  tasksPage?: string;
+  /**
+   * One-shot import: blocks are marked with ical-source:: import, so later syncs never delete them,
+   * and nothing else in the graph is cleaned up by this write.
+   */
+  imported?: boolean;
 };
 
 /**
@@ -87,39 +141,41 @@ function createPropertyBlock(key: string, value: string): BlockPayload {
 }
 
 /**
- * Extracts ical-id from text content.
+ * Extracts a property value from text content.
  */
-function extractICalId(content: string): string | undefined {
-  const match = content.match(new RegExp(`^${ICAL_ID_PROPERTY}::\\s*(.+)$`, "mi"));
+function extractPropertyValue(content: string, key: string): string | undefined {
+  const match = content.match(new RegExp(`^${key}::\\s*(.+)$`, "mi"));
   return match ? match[1].trim() : undefined;
 }
 
 /**
- * Extracts ical-id from a node, checking both main text and children.
+ * Extracts a property value from a node, checking both main text and children.
+ * Works for existing Roam nodes and for BlockPayloads about to be written.
  */
-function extractICalIdFromNode(node: RoamBasicNode): string | undefined {
-  let id = extractICalId(node.text ?? "");
-  if (id) return id;
+function extractPropertyFromNode(
+  node: { text: string; children?: { text: string }[] },
+  key: string
+): string | undefined {
+  let value = extractPropertyValue(node.text ?? "", key);
+  if (value) return value;
 
   for (const child of node.children ?? []) {
-    id = extractICalId(child.text ?? "");
-    if (id) return id;
+    value = extractPropertyValue(child.text ?? "", key);
+    if (value) return value;
   }
   return undefined;
 }
 
 /**
- * Extracts ical-id from a BlockPayload.
+ * Extracts the event instance identity (ical-id + ical-recurrence-id) from a node.
  */
-function extractICalIdFromBlock(block: BlockPayload): string | undefined {
-  let id = extractICalId(block.text ?? "");
-  if (id) return id;
-
-  for (const child of block.children ?? []) {
-    id = extractICalId(child.text ?? "");
-    if (id) return id;
-  }
-  return undefined;
+function extractInstanceIdFromNode(node: {
+  text: string;
+  children?: { text: string }[];
+}): string | undefined {
+  const uid = extractPropertyFromNode(node, ICAL_ID_PROPERTY);
+  if (!uid) return undefined;
+  return getEventInstanceId(uid, extractPropertyFromNode(node, ICAL_RECURRENCE_ID_PROPERTY));
 }
 
 /**
@@ -139,10 +195,22 @@ export function resolveEventPageName(
   return `${pagePrefix}/${calendarName}/${sanitizedId}`;
 }
 
+/**
+ * Determines the page that holds the tasks of a calendar.
+ * Format: prefix/calendarName/tasksPage
+ *
+ * @param calendarName Name of the calendar.
+ * @param pagePrefix Base page name prefix from settings.
+ * @param tasksPage Tasks page name from settings.
+ */
+export function resolveTasksPageName(calendarName: string, pagePrefix: string, tasksPage: string): string {
+  return `${pagePrefix}/${calendarName}/${tasksPage}`;
+}
+
 /**
  * Writes calendar events to their dedicated Roam pages.
  * Events are sorted by date (most recent first) and processed in batches
- * to prevent UI freezing with large calendars.
+ * to prevent UI freezing with large calendars. Tasks are written to one tasks page per calendar.
  *
  * @param pagePrefix Base page name prefix from settings.
  * @param calendars Array of calendars with their events.
@@ -164,6 +232,12 @@ export async function writeBlocks(
     excludePatterns: batchConfig?.excludePatterns ?? [],
     titlePrefix: batchConfig?.titlePrefix ?? DEFAULT_TITLE_PREFIX,
     attendeeAliases: batchConfig?.attendeeAliases ?? new Map(),
+    categoryAliases: batchConfig?.categoryAliases ?? new Map(),
+    timeZone: batchConfig?.timeZone,
+    timeFormat: batchConfig?.timeFormat ?? DEFAULT_TIME_FORMAT,
+    cancelledEvents: batchConfig?.cancelledEvents ?? DEFAULT_CANCELLED_EVENTS,
+    tasksPage: batchConfig?.tasksPage ?? DEFAULT_TASKS_PAGE,
+    imported: batchConfig?.imported ?? false,
   };
 
   // Collect all events from all calendars
@@ -171,24 +245,38 @@ export async function writeBlocks(
   for (const calendar of calendars) {
     // Filter out excluded events before processing (async to yield during filtering)
     const filteredEvents = await filterExcludedEvents(calendar.events, config.excludePatterns);
-    for (const event of filteredEvents) {
+    for (const filteredEvent of filteredEvents) {
+      // Redact private events before any block is built, so their details never reach the graph
+      const event = redactPrivateEvent(filteredEvent, calendar.privateEvents);
+      if (!event) {
+        logDebug("event_private_skipped", { uid: filteredEvent.uid });
+        continue;
+      }
+      if (event.status === "CANCELLED" && config.cancelledEvents === "skip") {
+        logDebug("event_cancelled_skipped", { title: event.summary, uid: event.uid });
+        continue;
+      }
       allEvents.push({ event, calendarName: calendar.name });
     }
   }
 
-  // Sort events by date (most recent first)
-  const sortedEvents = sortEventsByDateDescending(allEvents.map((e) => e.event));
+  // Sort events by date (most recent day first, chronological within a day)
+  const sortedEvents = sortEventsByDateDescending(
+    allEvents.map((e) => e.event),
+    config.timeZone
+  );
 
-  // Create a map to find calendar name by event UID
-  const eventCalendarMap = new Map<string, string>();
+  // Create a map to find calendar name by event
+  // (keyed by object, since occurrences and calendars can share a UID)
+  const eventCalendarMap = new Map<ICalEvent, string>();
   for (const { event, calendarName } of allEvents) {
-    eventCalendarMap.set(event.uid, calendarName);
+    eventCalendarMap.set(event, calendarName);
   }
 
   // Build events with blocks in sorted order
   const sortedEventsWithBlocks: EventWithBlock[] = sortedEvents.map((event) => {
-    const calendarName = eventCalendarMap.get(event.uid) ?? "Unknown";
-    const block = buildEventBlock(event, calendarName, config.titlePrefix, config.attendeeAliases);
+    const calendarName = eventCalendarMap.get(event) ?? "Unknown";
+    const block = buildEventBlock(event, calendarName, config);
     return { event, calendarName, block };
   });
 
@@ -216,9 +304,10 @@ export async function writeBlocks(
     }
 
     // Write batch events to their pages
+    // (obsolete blocks are removed once all batches are written: a page can span several batches)
     for (const [pageName, eventsWithBlocks] of batchByPage.entries()) {
       const blocks = eventsWithBlocks.map((e) => e.block);
-      await writeBlocksToPage(pageName, blocks);
+      await writeBlocksToPage(pageName, blocks, false);
     }
 
     processedCount += batch.length;
@@ -251,11 +340,61 @@ export async function writeBlocks(
     eventsByPage.get(pageName)!.push(ewb);
   }
 
-  await cleanupObsoletePages(pagePrefix, eventsByPage);
+  const currentIds = new Set<string>();
+  for (const { event } of sortedEventsWithBlocks) {
+    currentIds.add(getEventInstanceId(event.uid, event.recurrenceId));
+  }
+  const currentPages = new Set(eventsByPage.keys());
+
+  if (!config.imported) {
+    for (const [pageName, eventsWithBlocks] of eventsByPage.entries()) {
+      const pageIds = new Set(
+        eventsWithBlocks.map(({ event }) => getEventInstanceId(event.uid, event.recurrenceId))
+      );
+      await removeObsoleteBlocksFromPage(pageName, pageIds);
+    }
+  }
+
+  // Write tasks (one page per calendar), kept up to date by ical-id like events
+  let totalTodos = 0;
+  if (config.tasksPage) {
+    for (const calendar of calendars) {
+      const todos = sortTodosByDueDate(
+        calendar.todos
+          .filter((todo) => {
+            if (!shouldExcludeEvent(todo.summary, config.excludePatterns)) return true;
+            logDebug("todo_excluded", { title: todo.summary, uid: todo.uid });
+            return false;
+          })
+          .map((todo) => redactPrivateTodo(todo, calendar.privateEvents))
+          .filter((todo): todo is ICalTodo => todo !== undefined)
+      );
+      if (todos.length === 0) continue;
+
+      const pageName = resolveTasksPageName(calendar.name, pagePrefix, config.tasksPage);
+      await writeBlocksToPage(
+        pageName,
+        todos.map((todo) => buildTodoBlock(todo, calendar.name, config)),
+        !config.imported
+      );
+
+      currentPages.add(pageName);
+      for (const todo of todos) {
+        currentIds.add(todo.uid);
+      }
+      totalTodos += todos.length;
+    }
+  }
+
+  // An import only adds blocks: events of synced calendars are not "obsolete" because of it
+  if (!config.imported) {
+    await cleanupObsoletePages(pagePrefix, currentPages, currentIds);
+  }
 
   logDebug("write_blocks_complete", {
     totalEvents,
-    pageCount: eventsByPage.size,
+    totalTodos,
+    pageCount: currentPages.size,
   });
 }
 
@@ -274,27 +413,289 @@ function sanitizeTagName(name: string): string {
     .replace(/[^a-z0-9-_]/g, "");
 }
 
+/**
+ * Builds the Roam tag for an event category.
+ * Aliased categories link to the aliased page; others use the sanitized category name.
+ *
+ * @param category Category from the CATEGORIES property.
+ * @param aliases Map of category aliases (Category -> Page).
+ * @returns Roam tag, or undefined if nothing is left after sanitizing.
+ */
+function buildCategoryTag(category: string, aliases: Map<string, string>): string | undefined {
+  const alias = aliases.get(category.trim().toLowerCase());
+  if (alias) {
+    if (alias.startsWith("#")) return alias;
+    return alias.startsWith("[[") ? `#${alias}` : `#[[${alias}]]`;
+  }
+
+  const tagName = sanitizeTagName(category);
+  return tagName ? `#${tagName}` : undefined;
+}
+
+/**
+ * Resolves the Roam link for a participant.
+ * Uses the alias map (name or email) first, then falls back to `[[@Name]]`,
+ * deriving the name from the email address when no CN is available.
+ *
+ * @param attendee Participant to link.
+ * @param aliases Map of attendee aliases (Name/Email -> Page).
+ * @returns Roam link, or undefined if the participant has no usable name.
+ */
+function resolveAttendeeLink(attendee: ICalAttendee, aliases: Map<string, string>): string | undefined {
+  // 1. Check aliases (Name or Email)
+  let pageName = aliases.get(attendee.name.toLowerCase()) || aliases.get(attendee.email.toLowerCase());
+
+  if (pageName) {
+    // Ensure alias has brackets if it's a page reference
+    if (!pageName.startsWith("[[") && !pageName.startsWith("http")) {
+      pageName = `[[${pageName}]]`;
+    }
+    return pageName;
+  }
+
+  // 2. Fallback: Use name or email part
+  let displayName = attendee.name;
+  let email = attendee.email;
+
+  // If name looks like an email (contains @), treat it as an email to be parsed
+  if (displayName && displayName.includes("@")) {
+    // If attendee.name IS the email, we use that as the source email
+    if (!email) {
+      email = displayName;
+    }
+    displayName = "";
+  }
+
+  if (!displayName && email) {
+    // Extract name from email (avelino from avelino@example.com)
+    const localPart = email.split("@")[0];
+    // Capitalize/Format (avelino -> Avelino)
+    displayName = localPart
+      .split(/[._-]/)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join(" ");
+  }
+
+  if (!displayName) {
+    return undefined;
+  }
+
+  // 3. Apply standard formatting
+  return displayName.startsWith("@") ? `[[${displayName}]]` : `[[@${displayName}]]`;
+}
+
+/**
+ * Builds the annotation shown after an attendee link (e.g., " (optional)").
+ */
+function getAttendeeAnnotation(attendee: ICalAttendee): string {
+  const notes: string[] = [];
+  if (attendee.role === "OPT-PARTICIPANT") notes.push("optional");
+  if (attendee.partstat === "TENTATIVE") notes.push("tentative");
+  return notes.length > 0 ? ` (${notes.join(", ")})` : "";
+}
+
+/**
+ * Builds the ical-desc property block.
+ * A single paragraph stays inline (`ical-desc:: text`); longer descriptions are written
+ * as nested child blocks, with list items nested under the paragraph before them.
+ *
+ * @param description Plain-text (or HTML) description.
+ * @param htmlDescription Optional HTML alternative (X-ALT-DESC).
+ * @returns Property block, or undefined if the description is empty.
+ */
+function buildDescriptionBlock(description: string, htmlDescription?: string): BlockPayload | undefined {
+  const blocks = descriptionToBlocks(description, htmlDescription);
+  if (blocks.length === 0) return undefined;
+
+  if (blocks.length === 1 && blocks[0].children.length === 0) {
+    return createPropertyBlock(ICAL_DESC_PROPERTY, blocks[0].text);
+  }
+
+  return { text: `${ICAL_DESC_PROPERTY}::`, children: blocks };
+}
+
+/**
+ * Sorts tasks by due date (soonest first); tasks without a due date come last.
+ */
+function sortTodosByDueDate(todos: ICalTodo[]): ICalTodo[] {
+  return [...todos].sort((a, b) => {
+    if (!a.due || !b.due) return (a.due ? 0 : 1) - (b.due ? 0 : 1);
+    return a.due.getTime() - b.due.getTime();
+  });
+}
+
+/**
+ * Describes a PRIORITY value (RFC 5545: 1-4 high, 5 medium, 6-9 low).
+ */
+function describePriority(priority: number): string {
+  if (priority <= 4) return "high";
+  if (priority === 5) return "medium";
+  return "low";
+}
+
+/**
+ * Builds a Roam TODO/DONE block for a task.
+ * Completed and cancelled tasks are DONE; cancelled tasks also have their title struck through.
+ *
+ * @param todo iCal task.
+ * @param calendarName Calendar name used as tag.
+ * @param config Batch configuration (title prefix, timezone and time format).
+ */
+function buildTodoBlock(todo: ICalTodo, calendarName: string, config: BatchConfig): BlockPayload {
+  const { titlePrefix, timeZone } = config;
+  const timeFormat = config.timeFormat ?? DEFAULT_TIME_FORMAT;
+  const done = todo.status === "COMPLETED" || todo.status === "CANCELLED" || !!todo.completed;
+
+  let title = safeText(todo.summary) || "Untitled task";
+  if (todo.status === "CANCELLED") {
+    title = `~~${title}~~`;
+  }
+
+  const tags = [`#${sanitizeTagName(calendarName)}`];
+  const categoryAliases = config.categoryAliases ?? new Map<string, string>();
+  for (const category of todo.categories ?? []) {
+    const tag = buildCategoryTag(category, categoryAliases);
+    if (tag && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+
+  const prefix = titlePrefix && titlePrefix.trim() ? `${titlePrefix.trim()} ` : "";
+  const marker = done ? "{{[[DONE]]}}" : "{{[[TODO]]}}";
+  const text = `${marker} ${prefix}${title} ${tags.join(" ")}`;
+
+  const children: BlockPayload[] = [];
+  children.push(createPropertyBlock(ICAL_ID_PROPERTY, todo.uid));
+
+  // Imported tasks are not part of any synced calendar and must survive cleanup
+  if (config.imported) {
+    children.push(createPropertyBlock(ICAL_SOURCE_PROPERTY, IMPORT_SOURCE));
+  }
+
+  if (todo.due) {
+    const dueDate = `[[${formatRoamDate(todo.due, timeZone)}]]`;
+    children.push(
+      createPropertyBlock(
+        ICAL_DUE_PROPERTY,
+        todo.allDay ? dueDate : `${dueDate} ${formatTime(todo.due, timeFormat, timeZone)}`
+      )
+    );
+  }
+
+  if (todo.priority) {
+    children.push(createPropertyBlock(ICAL_PRIORITY_PROPERTY, describePriority(todo.priority)));
+  }
+
+  if (todo.status === "IN-PROCESS" || todo.status === "CANCELLED") {
+    children.push(createPropertyBlock(ICAL_STATUS_PROPERTY, todo.status.toLowerCase()));
+  }
+
+  if (todo.completed) {
+    children.push(createPropertyBlock(ICAL_COMPLETED_PROPERTY, `[[${formatRoamDate(todo.completed, timeZone)}]]`));
+  }
+
+  const descriptionBlock = buildDescriptionBlock(todo.description);
+  if (descriptionBlock) {
+    children.push(descriptionBlock);
+  }
+
+  if (todo.url) {
+    children.push(createPropertyBlock(ICAL_URL_PROPERTY, `[link](${todo.url})`));
+  }
+
+  return { text, children };
+}
+
+/**
+ * Milliseconds in a day, used to count the days of all-day events.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds the time range shown in the block title (e.g., "09:00–10:30").
+ * All-day events have no time range.
+ */
+function buildTimeRangeText(event: ICalEvent, timeFormat: TimeFormat, timeZone?: string): string {
+  if (!event.dtstart || event.allDay) return "";
+
+  const startText = formatTime(event.dtstart, timeFormat, timeZone);
+  if (!event.dtend || event.dtend.getTime() === event.dtstart.getTime()) {
+    return startText;
+  }
+  return `${startText}–${formatTime(event.dtend, timeFormat, timeZone)}`;
+}
+
+/**
+ * Gets the inclusive last day of an event.
+ * All-day events end on the exclusive DTEND, so their last day is the day before.
+ */
+function getLastDay(event: ICalEvent): Date | null {
+  if (!event.dtend) return null;
+  if (event.allDay && event.dtstart && event.dtend > event.dtstart) {
+    return new Date(event.dtend.getTime() - 1);
+  }
+  return event.dtend;
+}
+
+/**
+ * Builds the duration of an event (e.g., "1h 30m", or "2d" for all-day events).
+ */
+function buildDurationText(event: ICalEvent): string {
+  if (!event.dtstart || !event.dtend || event.dtend <= event.dtstart) return "";
+
+  const durationMs = event.dtend.getTime() - event.dtstart.getTime();
+  if (event.allDay) {
+    return `${Math.max(1, Math.round(durationMs / DAY_MS))}d`;
+  }
+  return formatDuration(durationMs);
+}
+
 /**
  * Builds the block content for an event.
- * Format: [prefix] [[Date]] Event Title #calendarName
+ * Format: [prefix] [[Date]] [Start–End] Event Title #calendarName [#tentative|#cancelled]
  *
  * @param event iCal event to format.
  * @param calendarName Calendar name to use as tag.
- * @param titlePrefix Optional prefix to prepend to the title.
- * @param aliases Map of attendee aliases (Name/Email -> Page).
+ * @param config Batch configuration (title prefix, attendee aliases, timezone and time format).
  */
 function buildEventBlock(
   event: ICalEvent,
   calendarName: string,
-  titlePrefix: string,
-  aliases?: Map<string, string>
+  config: BatchConfig
 ): BlockPayload {
-  const dateText = event.dtstart ? formatRoamDate(event.dtstart) : "No date";
-  const title = safeText(event.summary) || "Untitled event";
+  const { titlePrefix, timeZone } = config;
+  const aliases = config.attendeeAliases;
+  const timeFormat = config.timeFormat ?? DEFAULT_TIME_FORMAT;
+  const dateText = event.dtstart ? formatRoamDate(event.dtstart, timeZone) : "No date";
   const calendarTag = sanitizeTagName(calendarName);
+  const timeRangeText = buildTimeRangeText(event, timeFormat, timeZone);
+  const cancelledMode = config.cancelledEvents ?? DEFAULT_CANCELLED_EVENTS;
+
+  let title = safeText(event.summary) || "Untitled event";
+  const tags = [`#${calendarTag}`];
+  if (event.status === "CANCELLED") {
+    if (cancelledMode === "strikethrough") {
+      title = `~~${title}~~`;
+    } else {
+      tags.push(`#${CANCELLED_TAG}`);
+    }
+  } else if (event.status === "TENTATIVE") {
+    tags.push(`#${TENTATIVE_TAG}`);
+  }
+
+  // Add categories as tags (deduplicated, e.g. when a category matches the calendar name)
+  const categoryAliases = config.categoryAliases ?? new Map<string, string>();
+  for (const category of event.categories ?? []) {
+    const tag = buildCategoryTag(category, categoryAliases);
+    if (tag && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
 
-  // Build main text with optional prefix
-  let mainText = `[[${dateText}]] ${title} #${calendarTag}`;
+  // Build main text with optional time range and prefix
+  let mainText = timeRangeText
+    ? `[[${dateText}]] ${timeRangeText} ${title} ${tags.join(" ")}`
+    : `[[${dateText}]] ${title} ${tags.join(" ")}`;
   if (titlePrefix && titlePrefix.trim()) {
     mainText = `${titlePrefix.trim()} ${mainText}`;
   }
@@ -303,10 +704,30 @@ function buildEventBlock(
   // Always add ical-id for identification
   children.push(createPropertyBlock(ICAL_ID_PROPERTY, event.uid));
 
-  // Add description if present
-  const description = safeText(event.description);
-  if (description) {
-    children.push(createPropertyBlock(ICAL_DESC_PROPERTY, description));
+  // Occurrences of recurring events are identified by UID + recurrence id
+  if (event.recurrenceId) {
+    children.push(createPropertyBlock(ICAL_RECURRENCE_ID_PROPERTY, event.recurrenceId));
+  }
+
+  // Imported events are not part of any synced calendar and must survive cleanup
+  if (config.imported) {
+    children.push(createPropertyBlock(ICAL_SOURCE_PROPERTY, IMPORT_SOURCE));
+  }
+
+  // Add status for events that are not confirmed
+  if (event.status === "CANCELLED" || event.status === "TENTATIVE") {
+    children.push(createPropertyBlock(ICAL_STATUS_PROPERTY, event.status.toLowerCase()));
+  }
+
+  // Mark events that do not block time (TRANSP:TRANSPARENT)
+  if (event.transparency === "TRANSPARENT") {
+    children.push(createPropertyBlock(ICAL_TRANSPARENCY_PROPERTY, "free"));
+  }
+
+  // Add description if present (multi-line and HTML descriptions become nested blocks)
+  const descriptionBlock = buildDescriptionBlock(event.description, event.htmlDescription);
+  if (descriptionBlock) {
+    children.push(descriptionBlock);
   }
 
   // Add location if present
@@ -315,58 +736,54 @@ function buildEventBlock(
     children.push(createPropertyBlock(ICAL_LOCATION_PROPERTY, location));
   }
 
-  // Add meeting URL if present (detected from location/desc/url)
+  // Add meeting URL if present (conference properties or detected from location/desc/url),
+  // with alternate links listed under it
   if (event.meetingUrl) {
-    children.push(
-      createPropertyBlock(ICAL_MEETING_URL_PROPERTY, `**[JOIN MEETING](${event.meetingUrl})**`)
+    const [mainLink, ...alternates] = event.meetingLinks ?? [];
+    const service = mainLink?.url === event.meetingUrl ? mainLink.service : "Meeting";
+    const meetingBlock = createPropertyBlock(
+      ICAL_MEETING_URL_PROPERTY,
+      `**[JOIN ${service.toUpperCase()}](${event.meetingUrl})**`
     );
+    meetingBlock.children = alternates.map((link) => ({
+      text: `[${link.service}](${link.url})`,
+      children: [],
+    }));
+    children.push(meetingBlock);
   }
 
-  // Add attendees
+  // Add phone bridge details (dial-in numbers with meeting ID, passcode)
+  if (event.conference) {
+    const { dialIns, meetingId, passcode } = event.conference;
+    if (dialIns.length > 0) {
+      const numbers = dialIns.join(", ");
+      children.push(
+        createPropertyBlock(ICAL_DIAL_IN_PROPERTY, meetingId ? `${numbers} (ID: ${meetingId})` : numbers)
+      );
+    }
+    if (passcode) {
+      children.push(createPropertyBlock(ICAL_PASSCODE_PROPERTY, passcode));
+    }
+  }
+
+  // Add organizer
+  const organizerLink = event.organizer ? resolveAttendeeLink(event.organizer, aliases) : undefined;
+  if (organizerLink) {
+    children.push(createPropertyBlock(ICAL_ORGANIZER_PROPERTY, organizerLink));
+  }
+
+  // Add attendees, listing declined people separately
   if (event.attendees && event.attendees.length > 0) {
     const attendeeLinks: string[] = [];
+    const declinedLinks: string[] = [];
     for (const attendee of event.attendees) {
-      // 1. Check aliases (Name or Email)
-      let pageName =
-        aliases?.get(attendee.name.toLowerCase()) || aliases?.get(attendee.email.toLowerCase());
-
-      if (!pageName) {
-        // 2. Fallback: Use name or email part
-        let displayName = attendee.name;
-
-        // If name looks like an email (contains @), treat it as an email to be parsed
-        if (displayName && displayName.includes("@")) {
-          // Force parsing logic below by setting it to empty, but keeping attendee.email if valid
-          // If attendee.name IS the email, we use that as the source email
-          if (!attendee.email) {
-            attendee.email = displayName;
-          }
-          displayName = "";
-        }
-
-        if (!displayName && attendee.email) {
-          // Extract name from email (avelino from avelino@example.com)
-          const localPart = attendee.email.split("@")[0];
-          // Capitalize/Format (avelino -> Avelino)
-          displayName = localPart
-            .split(/[._-]/)
-            .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-            .join(" ");
-        }
+      const pageName = resolveAttendeeLink(attendee, aliases);
+      if (!pageName) continue;
 
-        if (displayName) {
-          // 3. Apply standard formatting
-          pageName = displayName.startsWith("@") ? `[[${displayName}]]` : `[[@${displayName}]]`;
-        }
+      if (attendee.partstat === "DECLINED") {
+        declinedLinks.push(pageName);
       } else {
-        // Ensure alias has brackets if it's a page reference
-        if (!pageName.startsWith("[[") && !pageName.startsWith("http")) {
-          pageName = `[[${pageName}]]`;
-        }
-      }
-
-      if (pageName) {
-        attendeeLinks.push(pageName);
+        attendeeLinks.push(`${pageName}${getAttendeeAnnotation(attendee)}`);
       }
     }
 
@@ -375,6 +792,10 @@ function buildEventBlock(
       const uniqueLinks = Array.from(new Set(attendeeLinks));
       children.push(createPropertyBlock(ICAL_ATTENDEES_PROPERTY, uniqueLinks.join(", ")));
     }
+    if (declinedLinks.length > 0) {
+      const uniqueLinks = Array.from(new Set(declinedLinks));
+      children.push(createPropertyBlock(ICAL_DECLINED_PROPERTY, uniqueLinks.join(", ")));
+    }
   }
 
   // Add URL if present
@@ -382,18 +803,34 @@ function buildEventBlock(
     children.push(createPropertyBlock(ICAL_URL_PROPERTY, `[link](${event.url})`));
   }
 
-  // Add end time if present and different from start
-  if (event.dtend) {
-    const endText = formatRoamDate(event.dtend);
+  // Add start time for timed events
+  if (event.dtstart && !event.allDay) {
+    children.push(createPropertyBlock(ICAL_START_PROPERTY, formatTime(event.dtstart, timeFormat, timeZone)));
+  }
+
+  // Add end date if present and different from start
+  const lastDay = getLastDay(event);
+  if (lastDay) {
+    const endText = formatRoamDate(lastDay, timeZone);
     if (endText !== dateText) {
       children.push(createPropertyBlock(ICAL_END_PROPERTY, `[[${endText}]]`));
     }
   }
 
+  // Add duration if the event has an end
+  const durationText = buildDurationText(event);
+  if (durationText) {
+    children.push(createPropertyBlock(ICAL_DURATION_PROPERTY, durationText));
+  }
+
   return { text: mainText, children };
 }
 
-async function writeBlocksToPage(pageName: string, blocks: BlockPayload[]): Promise<void> {
+async function writeBlocksToPage(
+  pageName: string,
+  blocks: BlockPayload[],
+  removeObsolete = true
+): Promise<void> {
   const pageUid = await ensurePage(pageName);
   const existingTree = getBasicTreeByParentUid(pageUid);
   const blockMap = buildBlockMap(existingTree);
@@ -409,13 +846,13 @@ async function writeBlocksToPage(pageName: string, blocks: BlockPayload[]): Prom
   let blockCount = 0;
 
   for (const block of blocks) {
-    const icalId = extractICalIdFromBlock(block);
+    const icalId = extractInstanceIdFromNode(block);
     if (!icalId) {
       continue;
     }
 
-    // Skip if we already processed this ical-id in this batch
-    // (handles recurring events with same UID but different dates)
+    // Skip if we already processed this event instance in this batch
+    // (occurrences of recurring events differ by recurrence id, so these are true duplicates)
     if (seenIds.has(icalId)) {
       logDebug("skip_duplicate_ical_id", { icalId, pageName });
       continue;
@@ -445,7 +882,9 @@ async function writeBlocksToPage(pageName: string, blocks: BlockPayload[]): Prom
     await maybeYield(blockCount);
   }
 
-  await removeObsoleteBlocks(blockMap, seenIds);
+  if (removeObsolete) {
+    await removeObsoleteBlocks(blockMap, seenIds);
+  }
 }
 
 /**
@@ -514,13 +953,22 @@ async function ensurePage(pageName: string): Promise<string> {
   }
 }
 
+/**
+ * Removes the blocks of a page whose ical-id is not in the given set.
+ */
+async function removeObsoleteBlocksFromPage(pageName: string, currentIds: Set<string>): Promise<void> {
+  const pageUid = await ensurePage(pageName);
+  const blockMap = buildBlockMap(getBasicTreeByParentUid(pageUid));
+  await removeObsoleteBlocks(blockMap, currentIds);
+}
+
 async function removeObsoleteBlocks(
   blockMap: Map<string, RoamBasicNode>,
   seenIds: Set<string>
 ): Promise<void> {
   let removeCount = 0;
   for (const [icalId, node] of blockMap.entries()) {
-    if (seenIds.has(icalId)) {
+    if (seenIds.has(icalId) || isImportedNode(node)) {
       continue;
     }
     await deleteBlock(node.uid);
@@ -533,6 +981,7 @@ async function removeObsoleteBlocks(
 
 /**
  * Synchronizes child blocks (properties) for an existing event block.
+ * Sync properties the event no longer has are removed; properties added by the user are kept.
  */
 async function syncChildren(parentUid: string, newChildren: BlockPayload[]): Promise<void> {
   const existingChildren = getBasicTreeByParentUid(parentUid);
@@ -558,6 +1007,7 @@ async function syncChildren(parentUid: string, newChildren: BlockPayload[]): Pro
           await updateBlock({ uid: existing.uid, text: newChild.text });
           await delay(MUTATION_DELAY_MS);
         }
+        await syncNestedChildren(existing, newChild.children);
         existingPropsMap.delete(propKey);
       } else {
         // Create new property
@@ -572,6 +1022,54 @@ async function syncChildren(parentUid: string, newChildren: BlockPayload[]): Pro
     childCount++;
     await maybeYield(childCount);
   }
+
+  // Left over from the previous sync (e.g. ical-status:: once the event is confirmed)
+  for (const [propKey, existing] of existingPropsMap) {
+    if (!propKey.startsWith(ICAL_PROPERTY_PREFIX)) {
+      continue;
+    }
+    await deleteBlock(existing.uid);
+    await delay(MUTATION_DELAY_MS);
+
+    childCount++;
+    await maybeYield(childCount);
+  }
+}
+
+/**
+ * Replaces the nested children of a property block (e.g. description paragraphs)
+ * when they differ from the new ones. Unchanged children are left untouched.
+ */
+async function syncNestedChildren(existing: RoamBasicNode, newChildren: BlockPayload[]): Promise<void> {
+  const existingChildren = existing.children ?? [];
+  if (serializeTree(existingChildren) === serializeTree(newChildren)) {
+    return;
+  }
+
+  let mutationCount = 0;
+  for (const child of existingChildren) {
+    await deleteBlock(child.uid);
+    await delay(MUTATION_DELAY_MS);
+    mutationCount++;
+    await maybeYield(mutationCount);
+  }
+
+  for (let index = 0; index < newChildren.length; index++) {
+    await createBlock({
+      parentUid: existing.uid,
+      order: index,
+      node: toInputNode(newChildren[index]),
+    });
+    mutationCount++;
+    await maybeYield(mutationCount);
+  }
+}
+
+/**
+ * Serializes a block tree (texts and nesting only) for comparison.
+ */
+function serializeTree(nodes: TreeNode[]): string {
+  return JSON.stringify(nodes.map((node) => [node.text, serializeTree(node.children ?? [])]));
 }
 
 /**
@@ -582,23 +1080,33 @@ function extractPropertyKey(text: string): string | undefined {
   return match ? match[1] : undefined;
 }
 
+/**
+ * Checks if a block was written by a one-shot file import (ical-source:: import).
+ */
+function isImportedNode(node: { text: string; children?: { text: string }[] }): boolean {
+  return extractPropertyFromNode(node, ICAL_SOURCE_PROPERTY) === IMPORT_SOURCE;
+}
+
+/**
+ * Removes blocks of events and tasks that are no longer in any calendar
+ * from pages under the prefix that were not written in this sync.
+ * Imported blocks are kept.
+ *
+ * @param pagePrefix Base page name prefix from settings.
+ * @param currentPages Pages written in this sync (already up to date).
+ * @param currentIds Instance ids of all events and tasks written in this sync.
+ */
 async function cleanupObsoletePages(
   pagePrefix: string,
-  currentEventsByPage: Map<string, EventWithBlock[]>
+  currentPages: Set<string>,
+  currentIds: Set<string>
 ): Promise<void> {
-  const currentEventIds = new Set<string>();
-  for (const eventsWithBlocks of currentEventsByPage.values()) {
-    for (const { event } of eventsWithBlocks) {
-      currentEventIds.add(event.uid);
-    }
-  }
-
   const prefix = `${pagePrefix}/`;
   const pageTitles = getPageTitlesStartingWithPrefix(prefix);
   let cleanupCount = 0;
 
   for (const pageTitle of pageTitles) {
-    if (currentEventsByPage.has(pageTitle)) {
+    if (currentPages.has(pageTitle)) {
       continue;
     }
 
@@ -611,7 +1119,7 @@ async function cleanupObsoletePages(
     const blockMap = buildBlockMap(tree);
 
     for (const [icalId, node] of blockMap.entries()) {
-      if (currentEventIds.has(icalId)) {
+      if (currentIds.has(icalId) || isImportedNode(node)) {
         continue;
       }
       await deleteBlock(node.uid);
@@ -624,13 +1132,13 @@ async function cleanupObsoletePages(
 }
 
 /**
- * Builds a map of existing blocks indexed by ical-id.
+ * Builds a map of existing blocks indexed by event instance id (ical-id + ical-recurrence-id).
  */
 function buildBlockMap(tree: RoamBasicNode[]): Map<string, RoamBasicNode> {
   const map = new Map<string, RoamBasicNode>();
 
   for (const node of tree) {
-    const id = extractICalIdFromNode(node);
+    const id = extractInstanceIdFromNode(node);
     if (id) {
       map.set(id, node);
       logDebug("build_block_map_found", { id, uid: node.uid });
@@ -0,0 +1,434 @@
+import { logDebug } from "./logger";
+import { buildAuthorizationHeader, fetchWithTransport, type CalendarAuth } from "./http";
+import { findChild, parseXml, type XmlElement } from "./xml";
+
+/**
+ * A calendar collection found on a CalDAV server.
+ */
+export interface CalDavCollection {
+  url: string;
+  displayName?: string;
+}
+
+/**
+ * Options of a CalDAV fetch.
+ */
+export interface CalDavFetchOptions {
+  auth?: CalendarAuth;
+  /** Only events overlapping this range are requested (calendar-query time-range) */
+  timeRange?: { start: Date; end: Date };
+  /** Rediscover the calendars and download every event, ignoring sync tokens and ctags */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Events of every calendar collection of a CalDAV source.
+ */
+export interface CalDavFetchResult {
+  /** Whether any collection changed since the last fetch */
+  changed: boolean;
+  /** Calendar objects (one VCALENDAR per event, with its overrides), in no particular order */
+  resources: string[];
+  collections: CalDavCollection[];
+}
+
+/**
+ * A response of a WebDAV multistatus.
+ */
+interface DavResponse {
+  /** Absolute URL of the resource */
+  href: string;
+  /** Status of the whole response (e.g. 404 for resources removed since a sync token) */
+  status?: number;
+  /** Properties found (from propstat elements with a 2xx status), by lower-cased name */
+  props: Map<string, XmlElement>;
+}
+
+/**
+ * What is known of a collection after the last fetch.
+ */
+interface CollectionState {
+  ctag?: string;
+  syncToken?: string;
+  /** Time range of the calendar-query the resources came from */
+  rangeKey: string;
+  /** Calendar data by resource URL */
+  resources: Map<string, string>;
+}
+
+const DAV_NAMESPACES =
+  'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/"';
+
+/**
+ * Properties read while looking for calendars (RFC 4791 section 6.2.1, RFC 5397).
+ */
+const DISCOVERY_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind ${DAV_NAMESPACES}>
+  <d:prop><d:resourcetype/><d:displayname/><d:current-user-principal/><c:calendar-home-set/></d:prop>
+</d:propfind>`;
+
+/**
+ * Properties that change whenever a collection changes (ctag, RFC 6578 sync token).
+ */
+const COLLECTION_STATE_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind ${DAV_NAMESPACES}>
+  <d:prop><cs:getctag/><d:sync-token/></d:prop>
+</d:propfind>`;
+
+/**
+ * Discovered calendars by source URL and credentials (see getCacheKey).
+ */
+const discoveryCache = new Map<string, CalDavCollection[]>();
+
+/**
+ * Collection states by collection URL and credentials (see getCacheKey).
+ */
+const collectionStates = new Map<string, CollectionState>();
+
+/**
+ * Builds the key of a URL in the caches. The credentials are part of it, since another account
+ * may see other calendars and events: changed credentials discover and download everything again.
+ * Keys are never logged.
+ */
+function getCacheKey(url: string, auth?: CalendarAuth): string {
+  return auth ? `${url}\n${buildAuthorizationHeader(auth)}` : url;
+}
+
+/**
+ * Clears discovered calendars and sync state.
+ */
+export function clearCalDavCache(): void {
+  discoveryCache.clear();
+  collectionStates.clear();
+}
+
+/**
+ * Escapes text for an XML element.
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Formats a date as a UTC date-time for CalDAV time ranges (e.g. "20250110T100000Z").
+ */
+export function formatCalDavDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}/, "").replace(/[-:]/g, "");
+}
+
+/**
+ * Builds a calendar-query REPORT body (RFC 4791 section 7.8) for the events of a time range.
+ */
+export function buildCalendarQuery(timeRange?: { start: Date; end: Date }): string {
+  const range = timeRange
+    ? `<c:time-range start="${formatCalDavDate(timeRange.start)}" end="${formatCalDavDate(timeRange.end)}"/>`
+    : "";
+  return `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query ${DAV_NAMESPACES}>
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">${range}</c:comp-filter></c:comp-filter></c:filter>
+</c:calendar-query>`;
+}
+
+/**
+ * Builds a sync-collection REPORT body (RFC 6578) listing changes since a sync token.
+ */
+function buildSyncCollection(syncToken: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<d:sync-collection ${DAV_NAMESPACES}>
+  <d:sync-token>${escapeXml(syncToken)}</d:sync-token>
+  <d:sync-level>1</d:sync-level>
+  <d:prop><d:getetag/></d:prop>
+</d:sync-collection>`;
+}
+
+/**
+ * Builds a calendar-multiget REPORT body (RFC 4791 section 7.9) for the given resources.
+ */
+function buildCalendarMultiget(urls: string[]): string {
+  const hrefs = urls.map((url) => `<d:href>${escapeXml(new URL(url).pathname)}</d:href>`).join("");
+  return `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-multiget ${DAV_NAMESPACES}>
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  ${hrefs}
+</c:calendar-multiget>`;
+}
+
+/**
+ * Reads the code of a WebDAV status line (e.g. "HTTP/1.1 404 Not Found").
+ */
+function parseStatusLine(line: string | undefined): number | undefined {
+  const match = line?.match(/\s(\d{3})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Parses a WebDAV multistatus response (RFC 4918 section 13).
+ *
+ * @param xml Response body.
+ * @param baseUrl URL of the request, to resolve relative hrefs.
+ * @throws When the body is not a multistatus.
+ */
+export function parseMultistatus(xml: string, baseUrl: string): { responses: DavResponse[]; syncToken?: string } {
+  const multistatus = findChild(parseXml(xml), "multistatus");
+  if (!multistatus) {
+    throw new Error("Invalid WebDAV response: no multistatus element");
+  }
+
+  const responses: DavResponse[] = [];
+  for (const response of multistatus.children) {
+    if (response.name !== "response") continue;
+    const href = findChild(response, "href")?.text.trim();
+    if (!href) continue;
+
+    const props = new Map<string, XmlElement>();
+    for (const propstat of response.children) {
+      if (propstat.name !== "propstat") continue;
+      const status = parseStatusLine(findChild(propstat, "status")?.text);
+      if (status !== undefined && (status < 200 || status > 299)) continue;
+      for (const prop of findChild(propstat, "prop")?.children ?? []) {
+        props.set(prop.name, prop);
+      }
+    }
+
+    responses.push({
+      href: new URL(href, baseUrl).toString(),
+      status: parseStatusLine(findChild(response, "status")?.text),
+      props,
+    });
+  }
+
+  return { responses, syncToken: findChild(multistatus, "sync-token")?.text.trim() || undefined };
+}
+
+/**
+ * Sends a PROPFIND or REPORT request and parses the multistatus response.
+ */
+async function davRequest(
+  url: string,
+  method: "PROPFIND" | "REPORT",
+  depth: "0" | "1",
+  body: string,
+  auth?: CalendarAuth
+): Promise<{ responses: DavResponse[]; syncToken?: string }> {
+  const { body: responseBody } = await fetchWithTransport(
+    url,
+    {
+      method,
+      headers: { Depth: depth, "Content-Type": "application/xml; charset=utf-8" },
+      body,
+    },
+    { auth }
+  );
+  return parseMultistatus(responseBody, url);
+}
+
+/**
+ * Gets the text of a property.
+ */
+function getPropText(response: DavResponse, name: string): string | undefined {
+  return response.props.get(name)?.text.trim() || undefined;
+}
+
+/**
+ * Gets the URL held by a property (e.g. calendar-home-set).
+ */
+function getPropHref(response: DavResponse, name: string): string | undefined {
+  const property = response.props.get(name);
+  const href = property && findChild(property, "href")?.text.trim();
+  return href ? new URL(href, response.href).toString() : undefined;
+}
+
+/**
+ * Checks if a resource is a calendar collection.
+ */
+function isCalendarCollection(response: DavResponse): boolean {
+  return response.props.get("resourcetype")?.children.some((type) => type.name === "calendar") ?? false;
+}
+
+/**
+ * Finds the calendars of a CalDAV account.
+ * The URL may be a calendar collection, a calendar home or a principal
+ * (or any URL whose current-user-principal leads to one).
+ *
+ * @param url URL given by the user.
+ * @param auth Optional credentials.
+ * @throws When no calendar home can be found.
+ */
+export async function discoverCalDavCollections(url: string, auth?: CalendarAuth): Promise<CalDavCollection[]> {
+  const [root] = (await davRequest(url, "PROPFIND", "0", DISCOVERY_BODY, auth)).responses;
+  if (!root) {
+    throw new Error(`No WebDAV properties returned for ${url}`);
+  }
+  if (isCalendarCollection(root)) {
+    return [{ url, displayName: getPropText(root, "displayname") }];
+  }
+
+  let homeUrl = getPropHref(root, "calendar-home-set");
+  const principalUrl = getPropHref(root, "current-user-principal");
+  if (!homeUrl && principalUrl && principalUrl !== root.href) {
+    const [principal] = (await davRequest(principalUrl, "PROPFIND", "0", DISCOVERY_BODY, auth)).responses;
+    homeUrl = principal ? getPropHref(principal, "calendar-home-set") : undefined;
+  }
+  if (!homeUrl) {
+    // The URL may be the calendar home itself
+    homeUrl = url;
+  }
+
+  const { responses } = await davRequest(homeUrl, "PROPFIND", "1", DISCOVERY_BODY, auth);
+  return responses
+    .filter(isCalendarCollection)
+    .map((response) => ({ url: response.href, displayName: getPropText(response, "displayname") }));
+}
+
+/**
+ * Downloads the events of a collection with a calendar-query.
+ */
+async function queryCollection(
+  collection: CalDavCollection,
+  options: CalDavFetchOptions
+): Promise<Map<string, string>> {
+  const { responses } = await davRequest(
+    collection.url,
+    "REPORT",
+    "1",
+    buildCalendarQuery(options.timeRange),
+    options.auth
+  );
+
+  const resources = new Map<string, string>();
+  for (const response of responses) {
+    const data = getPropText(response, "calendar-data");
+    if (data) resources.set(response.href, data);
+  }
+  return resources;
+}
+
+/**
+ * Applies the changes since the last sync token to the known resources.
+ *
+ * @returns The new sync token.
+ */
+async function applyCollectionChanges(
+  collection: CalDavCollection,
+  state: CollectionState,
+  options: CalDavFetchOptions
+): Promise<string | undefined> {
+  const { responses, syncToken } = await davRequest(
+    collection.url,
+    "REPORT",
+    "0",
+    buildSyncCollection(state.syncToken ?? ""),
+    options.auth
+  );
+
+  const changedUrls: string[] = [];
+  for (const response of responses) {
+    if (response.href === collection.url) continue;
+    if (response.status === 404) {
+      state.resources.delete(response.href);
+    } else {
+      changedUrls.push(response.href);
+    }
+  }
+
+  if (changedUrls.length > 0) {
+    const multiget = await davRequest(
+      collection.url,
+      "REPORT",
+      "1",
+      buildCalendarMultiget(changedUrls),
+      options.auth
+    );
+    for (const response of multiget.responses) {
+      const data = getPropText(response, "calendar-data");
+      if (data) {
+        state.resources.set(response.href, data);
+      } else if (response.status === 404) {
+        state.resources.delete(response.href);
+      }
+    }
+  }
+
+  logDebug("caldav_sync_collection", { url: collection.url, changed: changedUrls.length });
+  return syncToken;
+}
+
+/**
+ * Brings the events of a collection up to date.
+ * Unchanged collections (same sync token or ctag) are not downloaded again;
+ * changed ones are updated from their sync token when the server supports it,
+ * otherwise downloaded again with a calendar-query.
+ */
+async function syncCollection(
+  collection: CalDavCollection,
+  options: CalDavFetchOptions
+): Promise<{ changed: boolean; resources: string[] }> {
+  const rangeKey = options.timeRange
+    ? `${options.timeRange.start.getTime()}-${options.timeRange.end.getTime()}`
+    : "";
+  const [current] = (await davRequest(collection.url, "PROPFIND", "0", COLLECTION_STATE_BODY, options.auth))
+    .responses;
+  const ctag = current ? getPropText(current, "getctag") : undefined;
+  const syncToken = current ? getPropText(current, "sync-token") : undefined;
+  const stateKey = getCacheKey(collection.url, options.auth);
+  const state = options.forceRefresh ? undefined : collectionStates.get(stateKey);
+
+  if (state && state.rangeKey === rangeKey) {
+    const unchanged = (syncToken && syncToken === state.syncToken) || (ctag && ctag === state.ctag);
+    if (unchanged) {
+      logDebug("caldav_collection_unchanged", { url: collection.url });
+      return { changed: false, resources: Array.from(state.resources.values()) };
+    }
+
+    if (syncToken && state.syncToken) {
+      try {
+        const nextToken = await applyCollectionChanges(collection, state, options);
+        collectionStates.set(stateKey, { ...state, ctag, syncToken: nextToken ?? syncToken });
+        return { changed: true, resources: Array.from(state.resources.values()) };
+      } catch (error) {
+        // Expired or invalid token (RFC 6578 valid-sync-token): download everything again
+        logDebug("caldav_sync_token_failed", { url: collection.url, error: String(error) });
+      }
+    }
+  }
+
+  const resources = await queryCollection(collection, options);
+  collectionStates.set(stateKey, { ctag, syncToken, rangeKey, resources });
+  logDebug("caldav_calendar_query", { url: collection.url, resources: resources.size });
+  return { changed: true, resources: Array.from(resources.values()) };
+}
+
+/**
+ * Fetches the events of a CalDAV source: discovers its calendars (cached until forceRefresh)
+ * and brings each of them up to date.
+ *
+ * @param url Principal, calendar home or calendar collection URL.
+ * @param options Credentials, time range and refresh mode.
+ * @throws When no calendar is found or a request fails.
+ */
+export async function fetchCalDavCalendar(url: string, options: CalDavFetchOptions = {}): Promise<CalDavFetchResult> {
+  const cacheKey = getCacheKey(url, options.auth);
+  let collections = options.forceRefresh ? undefined : discoveryCache.get(cacheKey);
+  if (!collections) {
+    collections = await discoverCalDavCollections(url, options.auth);
+    discoveryCache.set(cacheKey, collections);
+    logDebug("caldav_discovered", {
+      url,
+      calendars: collections.map((collection) => collection.displayName ?? collection.url),
+    });
+  }
+  if (collections.length === 0) {
+    throw new Error(`No calendars found at ${url}`);
+  }
+
+  let changed = false;
+  const resources: string[] = [];
+  for (const collection of collections) {
+    const result = await syncCollection(collection, options);
+    changed ||= result.changed;
+    resources.push(...result.resources);
+  }
+
+  return { changed, resources, collections };
+}
@@ -0,0 +1,117 @@
+/**
+ * Phone details of a video conference (dial-in numbers, meeting ID and passcode).
+ */
+export interface ConferenceDetails {
+  /** Dial-in phone numbers, as written in the invite (e.g. "+1 646 558 8656") */
+  dialIns: string[];
+  /** Meeting ID / conference ID / PIN entered after dialing in */
+  meetingId?: string;
+  /** Passcode or password of the meeting */
+  passcode?: string;
+}
+
+/**
+ * Maximum number of dial-in numbers kept per event.
+ * Zoom and Teams invites list dozens of international numbers; the first ones are the local ones.
+ */
+const MAX_DIAL_INS = 3;
+
+/**
+ * Matches tel: URIs (e.g. "tel:+1-646-558-8656,,85746382910#,,,,*123456#").
+ */
+const TEL_URI_PATTERN = /tel:(\+?[\d().-]{7,})((?:[,;]+[\d*#]+)*)/gi;
+
+/**
+ * Matches international phone numbers written in text (must start with "+").
+ */
+const PHONE_PATTERN = /(?:^|[^\w/=])(\+\d[\d ().-]{6,}\d)/g;
+
+/**
+ * Labels used by Zoom ("Meeting ID"), Teams ("Phone conference ID", "Conference ID"),
+ * Google Meet ("PIN") and Webex ("Meeting number", "Access code").
+ */
+const MEETING_ID_PATTERN =
+  /\b(?:meeting\s+ID|(?:phone\s+)?conference\s+ID|meeting\s+number(?:\s*\(access\s+code\))?|access\s+code|PIN)\s*[:：]?\s*(\d[\d ]{2,}\d)\s*#?/i;
+
+/**
+ * Labels used for meeting passcodes ("Passcode: 123456", "Meeting password: abc123").
+ */
+const PASSCODE_PATTERN = /\b(?:passcode|password|pass\s+code)\s*[:：]\s*([^\s<>,;]+)/i;
+
+/**
+ * Gets the digits of a phone number (with leading "+"), used to detect duplicates.
+ */
+function normalizePhoneNumber(phone: string): string {
+  const digits = phone.replace(/[^\d]/g, "");
+  return phone.trim().startsWith("+") ? `+${digits}` : digits;
+}
+
+/**
+ * Removes HTML tags so labels and numbers split across markup can still be matched.
+ * Link targets are kept, since one-tap dial-in links are tel: URIs.
+ */
+function stripHtml(text: string): string {
+  return text
+    .replace(/<a\s[^>]*?href\s*=\s*["']?([^"'\s>]+)[^>]*>/gi, " $1 ")
+    .replace(/<br\s*\/?>|<\/(?:p|div|li)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/gi, " ");
+}
+
+/**
+ * Extracts dial-in numbers, meeting ID and passcode from event text (location, description).
+ * Understands the invite formats of Zoom, Microsoft Teams, Google Meet and Webex,
+ * including one-tap tel: URIs that carry the meeting ID and passcode.
+ *
+ * @param texts Texts to search, in priority order.
+ * @returns Conference details, or undefined if neither a dial-in number nor a passcode was found.
+ */
+export function extractConferenceDetails(...texts: (string | null | undefined)[]): ConferenceDetails | undefined {
+  const dialIns: string[] = [];
+  const seenNumbers = new Set<string>();
+  let meetingId: string | undefined;
+  let passcode: string | undefined;
+
+  const addDialIn = (phone: string) => {
+    const normalized = normalizePhoneNumber(phone);
+    if (normalized.replace("+", "").length < 7 || seenNumbers.has(normalized)) return;
+    seenNumbers.add(normalized);
+    if (dialIns.length < MAX_DIAL_INS) {
+      dialIns.push(phone.trim());
+    }
+  };
+
+  for (const rawText of texts) {
+    if (!rawText) continue;
+    const text = stripHtml(rawText);
+
+    // One-tap tel: URIs: "tel:+16465588656,,85746382910#,,,,*123456#"
+    for (const match of text.matchAll(TEL_URI_PATTERN)) {
+      addDialIn(match[1]);
+      const segments = match[2].split(/[,;]+/).filter(Boolean);
+      for (const segment of segments) {
+        const digits = segment.replace(/#$/, "");
+        if (digits.startsWith("*")) {
+          passcode ??= digits.slice(1);
+        } else if (/^\d{4,}$/.test(digits)) {
+          meetingId ??= digits;
+        }
+      }
+    }
+
+    // Numbers written in text, ignoring the ones inside tel: URIs
+    const withoutTelUris = text.replace(TEL_URI_PATTERN, " ");
+    for (const match of withoutTelUris.matchAll(PHONE_PATTERN)) {
+      addDialIn(match[1]);
+    }
+
+    meetingId ??= text.match(MEETING_ID_PATTERN)?.[1].replace(/\s+/g, " ").trim();
+    passcode ??= text.match(PASSCODE_PATTERN)?.[1];
+  }
+
+  if (dialIns.length === 0 && !passcode) {
+    return undefined;
+  }
+
+  return { dialIns, meetingId, passcode };
+}
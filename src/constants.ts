@@ -3,18 +3,38 @@ export const DEFAULT_PAGE_PREFIX = "ical";
 
 /** Property names for event blocks */
 export const ICAL_ID_PROPERTY = "ical-id";
+export const ICAL_RECURRENCE_ID_PROPERTY = "ical-recurrence-id";
 export const ICAL_DESC_PROPERTY = "ical-desc";
 export const ICAL_LOCATION_PROPERTY = "ical-location";
 export const ICAL_URL_PROPERTY = "ical-url";
 export const ICAL_MEETING_URL_PROPERTY = "ical-meeting-url";
+export const ICAL_DIAL_IN_PROPERTY = "ical-dial-in";
+export const ICAL_PASSCODE_PROPERTY = "ical-passcode";
 export const ICAL_ATTENDEES_PROPERTY = "ical-attendees";
+export const ICAL_DECLINED_PROPERTY = "ical-declined";
+export const ICAL_ORGANIZER_PROPERTY = "ical-organizer";
+export const ICAL_START_PROPERTY = "ical-start";
 export const ICAL_END_PROPERTY = "ical-end";
+export const ICAL_DURATION_PROPERTY = "ical-duration";
+export const ICAL_STATUS_PROPERTY = "ical-status";
+export const ICAL_TRANSPARENCY_PROPERTY = "ical-transparency";
+export const ICAL_DUE_PROPERTY = "ical-due";
+export const ICAL_PRIORITY_PROPERTY = "ical-priority";
+export const ICAL_COMPLETED_PROPERTY = "ical-completed";
+export const ICAL_SOURCE_PROPERTY = "ical-source";
+
+/** Prefix shared by all properties written by the sync (others belong to the user) */
+export const ICAL_PROPERTY_PREFIX = "ical-";
+
+/** ical-source value of blocks written by a one-shot file import */
+export const IMPORT_SOURCE = "import";
 
 /** Config page title for fallback settings */
 export const CONFIG_PAGE_TITLE = "roam/js/ical-sync";
 
 /** Command palette label */
 export const COMMAND_LABEL = "iCal: Sync calendars";
+export const IMPORT_COMMAND_LABEL = "iCal: Import .ics file";
 
 /** Topbar button configuration */
 export const TOPBAR_BUTTON_ID = "roam-ical-sync-button";
@@ -24,6 +44,21 @@ export const TOPBAR_ICON_NAME = "calendar";
 export const DEFAULT_BATCH_SIZE = 50;
 export const DEFAULT_BATCH_DELAY_MS = 500;
 
+/** Number of calendars downloaded at the same time (default and upper limit) */
+export const DEFAULT_FETCH_CONCURRENCY = 4;
+export const MAX_FETCH_CONCURRENCY = 10;
+
+/** Retries of failed downloads (429, 502, 503, network errors) and their backoff bounds */
+export const FETCH_MAX_RETRIES = 3;
+export const FETCH_RETRY_BASE_DELAY_MS = 1000;
+export const FETCH_RETRY_MAX_DELAY_MS = 30000;
+
+/** Time limit of a single request */
+export const FETCH_TIMEOUT_MS = 30000;
+
+/** Default way of reaching calendar servers ("roam-proxy", "custom-proxy" or "direct") */
+export const DEFAULT_FETCH_TRANSPORT = "roam-proxy";
+
 /** Default patterns to exclude from sync (one per line) */
 export const DEFAULT_EXCLUDE_PATTERNS = "^Busy$";
 
@@ -31,5 +66,18 @@ export const DEFAULT_EXCLUDE_PATTERNS = "^Busy$";
 export const DEFAULT_SYNC_DAYS_PAST = 30;
 export const DEFAULT_SYNC_DAYS_FUTURE = 30;
 
+/** Default name of the page that holds each calendar's tasks (VTODO); empty: tasks are not synced */
+export const DEFAULT_TASKS_PAGE = "";
+
 /** Default title prefix for event blocks */
 export const DEFAULT_TITLE_PREFIX = "#gcal";
+
+/** Default clock format for event times ("12h" or "24h") */
+export const DEFAULT_TIME_FORMAT = "24h";
+
+/** Default handling of STATUS:CANCELLED events ("skip", "strikethrough" or "tag") */
+export const DEFAULT_CANCELLED_EVENTS = "strikethrough";
+
+/** Tags added to event blocks based on their STATUS */
+export const CANCELLED_TAG = "cancelled";
+export const TENTATIVE_TAG = "tentative";
@@ -0,0 +1,230 @@
+/**
+ * A block of a converted description. Children are nested blocks (e.g. list items).
+ */
+export interface DescriptionBlock {
+  text: string;
+  children: DescriptionBlock[];
+}
+
+/**
+ * A line of a description with its list nesting.
+ * Depth 0 is a paragraph; list items start at depth 1.
+ */
+interface DescriptionLine {
+  text: string;
+  depth: number;
+}
+
+/**
+ * Matches markup that only appears in HTML descriptions.
+ */
+const HTML_PATTERN = /<\/?(?:a|b|br|div|em|i|li|ol|p|span|strong|u|ul|html|body)\b[^>]*>/i;
+
+/**
+ * Matches plain-text list markers ("- item", "* item", "• item", "1. item", "2) item").
+ */
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*•]|\d+[.)])\s+(.*)$/;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Checks if a description contains HTML markup.
+ */
+export function isHtmlDescription(text: string | null | undefined): boolean {
+  return !!text && HTML_PATTERN.test(text);
+}
+
+/**
+ * Decodes HTML entities (named entities above and numeric references).
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Gets an attribute value from an HTML start tag.
+ */
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? "");
+}
+
+/**
+ * Converts HTML into lines of Roam markdown.
+ * Links become [text](url), bold becomes **text**, italics __text__,
+ * and list items become lines nested by list depth.
+ */
+function htmlToLines(html: string): DescriptionLine[] {
+  const lines: DescriptionLine[] = [];
+  let current = "";
+  let currentDepth = 0;
+  let listDepth = 0;
+  let link: { href: string; start: number } | undefined;
+
+  const flush = () => {
+    const text = current.replace(/[ \t\u00a0]+/g, " ").trim();
+    if (text) {
+      lines.push({ text, depth: currentDepth });
+    }
+    current = "";
+    currentDepth = listDepth;
+    if (link) {
+      link.start = 0;
+    }
+  };
+
+  const tokens = html.replace(/<!--[\s\S]*?-->/g, "").split(/(<[^>]+>)/);
+  for (const token of tokens) {
+    if (!token.startsWith("<")) {
+      // Whitespace (including newlines) in HTML text is not significant
+      current += decodeEntities(token.replace(/\s+/g, " "));
+      continue;
+    }
+
+    const tagMatch = token.match(/^<\s*(\/?)\s*([a-z0-9]+)/i);
+    if (!tagMatch) continue;
+    const closing = tagMatch[1] === "/";
+    const tag = tagMatch[2].toLowerCase();
+
+    switch (tag) {
+      case "br":
+      case "p":
+      case "div":
+      case "tr":
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+        flush();
+        break;
+      case "ul":
+      case "ol":
+        flush();
+        listDepth = Math.max(0, listDepth + (closing ? -1 : 1));
+        currentDepth = listDepth;
+        break;
+      case "li":
+        flush();
+        currentDepth = listDepth;
+        break;
+      case "b":
+      case "strong":
+        current += "**";
+        break;
+      case "i":
+      case "em":
+        current += "__";
+        break;
+      case "a":
+        if (!closing) {
+          const href = getAttribute(token, "href");
+          link = href ? { href, start: current.length } : undefined;
+        } else if (link) {
+          const label = current.slice(link.start).trim();
+          const markdown = !label || label === link.href ? link.href : `[${label}](${link.href})`;
+          current = current.slice(0, link.start) + markdown;
+          link = undefined;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+  flush();
+
+  // Drop empty markup left over from formatting tags with no text (e.g. "****")
+  return lines.filter((line) => line.text.replace(/\*\*|__/g, "").trim() !== "");
+}
+
+/**
+ * Splits a plain-text description into lines.
+ * Lines starting with a list marker become list items, nested by indentation.
+ */
+function textToLines(text: string): DescriptionLine[] {
+  const lines: DescriptionLine[] = [];
+  const indents: number[] = [];
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    if (!rawLine.trim()) continue;
+
+    const match = rawLine.match(LIST_ITEM_PATTERN);
+    if (!match) {
+      indents.length = 0;
+      lines.push({ text: rawLine.trim(), depth: 0 });
+      continue;
+    }
+
+    const indent = match[1].replace(/\t/g, "  ").length;
+    while (indents.length > 0 && indents[indents.length - 1] > indent) {
+      indents.pop();
+    }
+    if (indents.length === 0 || indents[indents.length - 1] < indent) {
+      indents.push(indent);
+    }
+    lines.push({ text: match[2].trim(), depth: indents.length });
+  }
+
+  return lines;
+}
+
+/**
+ * Builds nested blocks from lines: each line becomes a child of the closest
+ * previous line with a smaller depth (list items nest under the paragraph before them).
+ */
+function linesToBlocks(lines: DescriptionLine[]): DescriptionBlock[] {
+  const roots: DescriptionBlock[] = [];
+  const stack: { block: DescriptionBlock; depth: number }[] = [];
+
+  for (const line of lines) {
+    const block: DescriptionBlock = { text: line.text, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].depth >= line.depth) {
+      stack.pop();
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].block.children.push(block);
+    } else {
+      roots.push(block);
+    }
+    stack.push({ block, depth: line.depth });
+  }
+
+  return roots;
+}
+
+/**
+ * Converts an event description to Roam blocks.
+ * HTML (from X-ALT-DESC or an HTML DESCRIPTION) is preferred over plain text.
+ *
+ * @param description Plain DESCRIPTION text (may contain HTML).
+ * @param htmlDescription Optional HTML alternative (X-ALT-DESC;FMTTYPE=text/html).
+ * @returns Blocks, one per paragraph, with list items nested as children.
+ */
+export function descriptionToBlocks(
+  description: string | null | undefined,
+  htmlDescription?: string | null
+): DescriptionBlock[] {
+  if (htmlDescription && htmlDescription.trim()) {
+    const blocks = linesToBlocks(htmlToLines(htmlDescription));
+    if (blocks.length > 0) return blocks;
+  }
+
+  if (!description || !description.trim()) return [];
+
+  const lines = isHtmlDescription(description) ? htmlToLines(description) : textToLines(description);
+  return linesToBlocks(lines);
+}
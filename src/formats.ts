@@ -0,0 +1,199 @@
+import ICAL from "ical.js";
+import { findChild, parseXml, type XmlElement } from "./xml";
+
+/**
+ * Calendar data formats:
+ * - ical: text iCalendar (RFC 5545)
+ * - jcal: JSON iCalendar (RFC 7265)
+ * - xcal: XML iCalendar (RFC 6321)
+ */
+export type CalendarFormat = "ical" | "jcal" | "xcal";
+
+/**
+ * Media types of each format. Generic JSON/XML types are accepted as well,
+ * since some servers don't use the calendar-specific ones.
+ */
+const CONTENT_TYPES: Record<CalendarFormat, string[]> = {
+  ical: ["text/calendar", "text/plain", "application/octet-stream"],
+  jcal: ["application/calendar+json", "application/json"],
+  xcal: ["application/calendar+xml", "application/xml", "text/xml"],
+};
+
+/**
+ * Value types of xCal value elements (RFC 6321 section 3.6).
+ * GEO and REQUEST-STATUS have dedicated elements but are float and text values in jCal.
+ */
+const XCAL_VALUE_TYPES: Record<string, string> = {
+  binary: "binary",
+  boolean: "boolean",
+  "cal-address": "cal-address",
+  date: "date",
+  "date-time": "date-time",
+  duration: "duration",
+  float: "float",
+  geo: "float",
+  integer: "integer",
+  period: "period",
+  recur: "recur",
+  "request-status": "text",
+  text: "text",
+  time: "time",
+  unknown: "unknown",
+  uri: "uri",
+  "utc-offset": "utc-offset",
+};
+
+/**
+ * Recurrence rule parts whose values are numbers in jCal.
+ */
+const RECUR_NUMERIC_PARTS = new Set([
+  "count", "interval", "bysecond", "byminute", "byhour", "bymonthday", "byyearday", "byweekno",
+  "bymonth", "bysetpos",
+]);
+
+type JCalProperty = [string, Record<string, string | string[]>, string, ...unknown[]];
+type JCalComponent = [string, JCalProperty[], JCalComponent[]];
+
+/**
+ * Checks if a Content-Type header names a supported calendar format.
+ * A missing header is accepted (the format is then detected from the body).
+ */
+export function isSupportedContentType(contentType: string | null | undefined): boolean {
+  if (!contentType) return true;
+  const mediaType = contentType.split(";")[0].trim().toLowerCase();
+  return Object.values(CONTENT_TYPES).some((types) => types.includes(mediaType));
+}
+
+/**
+ * Detects the format of calendar data.
+ * Calendar-specific content types win; otherwise the body decides
+ * (jCal starts with "[", xCal with "<", text iCalendar with "BEGIN:").
+ *
+ * @param content Calendar data.
+ * @param contentType Optional Content-Type header of the response.
+ */
+export function detectCalendarFormat(content: string, contentType?: string | null): CalendarFormat {
+  const mediaType = contentType?.split(";")[0].trim().toLowerCase();
+  if (mediaType === "application/calendar+json") return "jcal";
+  if (mediaType === "application/calendar+xml") return "xcal";
+
+  const start = content.replace(/^\uFEFF/, "").trimStart();
+  if (start.startsWith("[") || start.startsWith("{")) return "jcal";
+  if (start.startsWith("<")) return "xcal";
+  return "ical";
+}
+
+/**
+ * Converts the values of an xCal property to jCal (value type and values).
+ */
+function convertXCalValues(property: XmlElement): { type: string; values: unknown[] } {
+  const valueElements = property.children.filter((child) => child.name !== "parameters");
+  if (valueElements.length === 0) {
+    return { type: "unknown", values: [property.text.trim()] };
+  }
+
+  const type = valueElements[0].name;
+  const values = valueElements.map((element): unknown => {
+    switch (element.name) {
+      case "period": {
+        const start = findChild(element, "start")?.text ?? "";
+        const endOrDuration = findChild(element, "end") ?? findChild(element, "duration");
+        return [start, endOrDuration?.text ?? ""];
+      }
+      case "recur": {
+        const recur: Record<string, string | number | (string | number)[]> = {};
+        for (const part of element.children) {
+          const value = RECUR_NUMERIC_PARTS.has(part.name) ? Number(part.text) : part.text;
+          const existing = recur[part.name];
+          recur[part.name] = existing === undefined ? value : [...[existing].flat(), value];
+        }
+        return recur;
+      }
+      case "geo":
+        return [Number(findChild(element, "latitude")?.text), Number(findChild(element, "longitude")?.text)];
+      case "request-status":
+        return ["code", "description", "data"].map((name) => findChild(element, name)?.text ?? "");
+      case "integer":
+      case "float":
+        return Number(element.text);
+      case "boolean":
+        return element.text.trim().toLowerCase() === "true";
+      default:
+        return element.text;
+    }
+  });
+
+  return { type: XCAL_VALUE_TYPES[type] ?? "unknown", values };
+}
+
+/**
+ * Converts the parameters of an xCal property to a jCal parameter object.
+ */
+function convertXCalParameters(property: XmlElement): Record<string, string | string[]> {
+  const parameters: Record<string, string | string[]> = {};
+  const parametersElement = findChild(property, "parameters");
+  if (!parametersElement) return parameters;
+
+  for (const parameter of parametersElement.children) {
+    const values = parameter.children.map((value) => value.text);
+    if (values.length === 0) values.push(parameter.text);
+    parameters[parameter.name] = values.length === 1 ? values[0] : values;
+  }
+  return parameters;
+}
+
+/**
+ * Converts an xCal component element to a jCal component.
+ */
+function convertXCalComponent(component: XmlElement): JCalComponent {
+  const properties: JCalProperty[] = [];
+  for (const property of findChild(component, "properties")?.children ?? []) {
+    const { type, values } = convertXCalValues(property);
+    properties.push([property.name, convertXCalParameters(property), type, ...values]);
+  }
+
+  const subcomponents = (findChild(component, "components")?.children ?? []).map(convertXCalComponent);
+  return [component.name, properties, subcomponents];
+}
+
+/**
+ * Converts an xCal document (RFC 6321) to jCal (RFC 7265).
+ *
+ * @throws When the document has no vcalendar element.
+ */
+export function xCalToJCal(xml: string): JCalComponent {
+  const document = parseXml(xml);
+  const icalendar = findChild(document, "icalendar");
+  const vcalendar = icalendar ? findChild(icalendar, "vcalendar") : findChild(document, "vcalendar");
+  if (!vcalendar) {
+    throw new Error("Invalid xCal content: no vcalendar element");
+  }
+  return convertXCalComponent(vcalendar);
+}
+
+/**
+ * Converts calendar data to text iCalendar, so every format goes through the same parser.
+ *
+ * @param content Calendar data.
+ * @param format Format of the data (see detectCalendarFormat).
+ * @returns Text iCalendar content.
+ * @throws When jCal or xCal content can't be read.
+ */
+export function toICalendarText(content: string, format: CalendarFormat): string {
+  if (format === "ical") return content;
+
+  if (format === "jcal") {
+    let jcal: unknown;
+    try {
+      jcal = JSON.parse(content.replace(/^\uFEFF/, ""));
+    } catch (error) {
+      throw new Error(`Invalid jCal content: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(jcal) || typeof jcal[0] !== "string") {
+      throw new Error("Invalid jCal content: expected a vcalendar component");
+    }
+    return new ICAL.Component(jcal).toString();
+  }
+
+  return new ICAL.Component(xCalToJCal(content)).toString();
+}
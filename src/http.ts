@@ -0,0 +1,412 @@
+import { logDebug } from "./logger";
+import {
+  DEFAULT_FETCH_TRANSPORT,
+  FETCH_MAX_RETRIES,
+  FETCH_RETRY_BASE_DELAY_MS,
+  FETCH_RETRY_MAX_DELAY_MS,
+  FETCH_TIMEOUT_MS,
+} from "./constants";
+
+/**
+ * Ways of reaching calendar servers:
+ * - roam-proxy: Roam's CORS proxy (roamAlphaAPI.constants.corsAnywhereProxyUrl)
+ * - custom-proxy: a proxy of the user, from a URL template
+ * - direct: no proxy, for servers that send CORS headers
+ */
+export type FetchTransport = "roam-proxy" | "custom-proxy" | "direct";
+
+/**
+ * Transport settings (see setTransportSettings).
+ */
+export interface TransportSettings {
+  /** Transport tried first; the others are fallbacks */
+  transport: FetchTransport;
+  /** Custom proxy URL, with "{url}" where the encoded calendar URL goes (appended when missing) */
+  proxyUrlTemplate: string;
+}
+
+/**
+ * Credentials of a calendar server:
+ * - basic: user name and password (HTTP Basic authentication)
+ * - bearer: access token (e.g. an app password or OAuth token)
+ */
+export type CalendarAuth =
+  | { type: "basic"; username: string; password: string }
+  | { type: "bearer"; token: string };
+
+/**
+ * Kinds of fetch errors:
+ * - retryable: the server may recover (429, 502, 503, timeouts, ...); retried with backoff
+ * - permanent: retrying won't help (401, 403, 404, network errors such as a CORS block, ...); reported at once
+ */
+export type FetchErrorKind = "retryable" | "permanent";
+
+/**
+ * A failed request attempt.
+ */
+export interface FetchAttemptError {
+  url: string;
+  /** Transport used for the attempt */
+  transport?: FetchTransport;
+  kind: FetchErrorKind;
+  /** HTTP status, missing for network errors */
+  status?: number;
+  message: string;
+}
+
+/**
+ * Retry settings of a request.
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries?: number;
+  /** Backoff before the first retry, doubled for each later retry */
+  baseDelayMs?: number;
+  /** Upper bound of a single wait, including waits asked for by Retry-After */
+  maxDelayMs?: number;
+  /** Time limit of each attempt */
+  timeoutMs?: number;
+}
+
+/**
+ * Response of a request that eventually succeeded.
+ */
+export interface RetryResult {
+  response: Response;
+  /** Response body, read within the timeout of the attempt (empty for 304 and HEAD) */
+  body: string;
+  /** Number of requests sent (1 when the first one succeeded) */
+  attempts: number;
+  /** Errors of the attempts that were retried */
+  errors: FetchAttemptError[];
+}
+
+/**
+ * Settings of a request sent through the transports.
+ */
+export interface TransportOptions extends RetryOptions {
+  /** Credentials sent in the Authorization header */
+  auth?: CalendarAuth;
+}
+
+/**
+ * Response of a request sent through one of the transports.
+ */
+export interface TransportResult extends RetryResult {
+  /** Transport that returned the response */
+  transport: FetchTransport;
+}
+
+/**
+ * HTTP statuses worth retrying: timeouts, rate limiting and temporary server or proxy failures.
+ */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Order in which transports are tried after the preferred one.
+ */
+const TRANSPORT_FALLBACK_ORDER: FetchTransport[] = ["roam-proxy", "custom-proxy", "direct"];
+
+let transportSettings: TransportSettings = {
+  transport: DEFAULT_FETCH_TRANSPORT,
+  proxyUrlTemplate: "",
+};
+
+/**
+ * Sets the transport used by fetchWithTransport (from the extension settings).
+ */
+export function setTransportSettings(settings: TransportSettings): void {
+  transportSettings = { ...settings };
+}
+
+/**
+ * Error thrown when a request failed for good.
+ * Carries every attempt and the kind of the last HTTP error (or of the last error when no
+ * attempt got a response), so a network failure of a fallback does not hide a server's answer.
+ */
+export class FetchError extends Error {
+  readonly kind: FetchErrorKind;
+  readonly status?: number;
+  readonly attempts: number;
+  readonly errors: FetchAttemptError[];
+
+  constructor(errors: FetchAttemptError[]) {
+    const last =
+      [...errors].reverse().find((error) => error.status !== undefined) ?? errors[errors.length - 1];
+    super(last.message);
+    this.name = "FetchError";
+    this.kind = last.kind;
+    this.status = last.status;
+    this.attempts = errors.length;
+    this.errors = errors;
+  }
+}
+
+/**
+ * Encodes text as Base64, UTF-8 first (btoa only accepts Latin-1).
+ */
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+}
+
+/**
+ * Builds the Authorization header value of calendar credentials.
+ */
+export function buildAuthorizationHeader(auth: CalendarAuth): string {
+  return auth.type === "basic"
+    ? `Basic ${encodeBase64(`${auth.username}:${auth.password}`)}`
+    : `Bearer ${auth.token}`;
+}
+
+/**
+ * Describes calendar credentials without revealing secrets, for logs (e.g. "basic (alice, ****)").
+ */
+export function describeAuth(auth: CalendarAuth | undefined): string {
+  if (!auth) return "none";
+  return auth.type === "basic" ? `basic (${auth.username}, ****)` : "bearer (****)";
+}
+
+/**
+ * Checks if a request that ended with an HTTP status should be retried.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or HTTP date).
+ *
+ * @param header Value of the header.
+ * @param now Current time in milliseconds (for HTTP dates).
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()): number | undefined {
+  const value = header?.trim();
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Computes the wait before a retry: exponential backoff with jitter,
+ * or the delay asked for by the server (Retry-After) when there is one.
+ *
+ * @param retry Zero-based index of the retry.
+ * @param retryAfterMs Delay from the Retry-After header, if any.
+ * @param options Retry settings.
+ * @param random Random number generator in [0, 1) (for the jitter).
+ * @returns Delay in milliseconds, or undefined when the server asks to wait longer than allowed.
+ */
+export function getRetryDelay(
+  retry: number,
+  retryAfterMs?: number,
+  options: RetryOptions = {},
+  random: () => number = Math.random
+): number | undefined {
+  const baseDelayMs = options.baseDelayMs ?? FETCH_RETRY_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? FETCH_RETRY_MAX_DELAY_MS;
+
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= maxDelayMs ? retryAfterMs : undefined;
+  }
+
+  // "Equal jitter": half of the backoff is fixed, the other half random
+  const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+  return Math.round(backoff / 2 + random() * (backoff / 2));
+}
+
+/**
+ * Waits for the given number of milliseconds.
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends a request, retrying retryable failures with exponential backoff and jitter.
+ * Each attempt, including reading the body, is aborted after the timeout.
+ * 304 Not Modified counts as a success.
+ *
+ * @param url URL to fetch.
+ * @param init Request options.
+ * @param options Retry settings.
+ * @throws FetchError When the request failed with a permanent error or retries were exhausted.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = {}
+): Promise<RetryResult> {
+  const maxRetries = Math.max(0, options.maxRetries ?? FETCH_MAX_RETRIES);
+  const timeoutMs = options.timeoutMs ?? FETCH_TIMEOUT_MS;
+  const errors: FetchAttemptError[] = [];
+
+  for (let retry = 0; ; retry++) {
+    let response: Response | undefined;
+    let error: FetchAttemptError;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+      if (response.ok || response.status === 304) {
+        // A server may stall after the headers: the body is read under the same timeout
+        const body = await response.text();
+        return { response, body, attempts: retry + 1, errors };
+      }
+      error = {
+        url,
+        kind: isRetryableStatus(response.status) ? "retryable" : "permanent",
+        status: response.status,
+        message: `HTTP ${response.status}: ${response.statusText}`,
+      };
+    } catch (fetchError) {
+      // fetch only rejects on network failures (offline, DNS, CORS, connection reset) and timeouts.
+      // Browsers don't tell a CORS block from a dropped connection, so both are retried
+      // (a CORS block then falls through to the next transport once retries are exhausted).
+      const message = controller.signal.aborted
+        ? `Request timed out (${timeoutMs / 1000}s)`
+        : fetchError instanceof Error
+          ? fetchError.message
+          : String(fetchError);
+      error = { url, kind: "retryable", message };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+    errors.push(error);
+
+    if (error.kind === "permanent" || retry >= maxRetries) {
+      throw new FetchError(errors);
+    }
+
+    const retryAfterMs = parseRetryAfter(response?.headers.get("Retry-After"));
+    const delayMs = getRetryDelay(retry, retryAfterMs, options);
+    if (delayMs === undefined) {
+      logDebug("fetch_retry_skipped", { url, status: error.status, retryAfterMs });
+      throw new FetchError(errors);
+    }
+
+    logDebug("fetch_retry", { url, status: error.status, error: error.message, retry: retry + 1, delayMs });
+    await sleep(delayMs);
+  }
+}
+
+/**
+ * Gets the CORS proxy URL from Roam's native API.
+ * Uses roamAlphaAPI.constants.corsAnywhereProxyUrl which is hosted by the Roam team.
+ * @see https://roamresearch.com/#/app/developer-documentation/page/TuLoib22N
+ */
+function getRoamProxyUrl(): string | undefined {
+  const roamAPI = (window as unknown as {
+    roamAlphaAPI?: {
+      constants?: {
+        corsAnywhereProxyUrl?: string;
+      };
+    };
+  }).roamAlphaAPI;
+
+  return roamAPI?.constants?.corsAnywhereProxyUrl;
+}
+
+/**
+ * Fills a proxy URL template with the target URL.
+ * "{url}" is replaced with the encoded URL (e.g. "https://proxy.example/?url={url}");
+ * without placeholder the URL is appended after a slash, like Roam's proxy expects.
+ */
+export function applyProxyTemplate(template: string, targetUrl: string): string {
+  const trimmed = template.trim();
+  if (trimmed.includes("{url}")) {
+    return trimmed.split("{url}").join(encodeURIComponent(targetUrl));
+  }
+  return `${trimmed.replace(/\/+$/, "")}/${targetUrl}`;
+}
+
+/**
+ * Builds the URL to request for a transport.
+ *
+ * @returns The URL, or undefined when the transport is not available
+ * (Roam proxy missing, no custom proxy configured).
+ */
+export function buildTransportUrl(
+  transport: FetchTransport,
+  targetUrl: string,
+  settings: TransportSettings = transportSettings
+): string | undefined {
+  switch (transport) {
+    case "roam-proxy": {
+      const proxyUrl = getRoamProxyUrl();
+      return proxyUrl ? `${proxyUrl}/${targetUrl}` : undefined;
+    }
+    case "custom-proxy":
+      return settings.proxyUrlTemplate.trim() ? applyProxyTemplate(settings.proxyUrlTemplate, targetUrl) : undefined;
+    case "direct":
+      return targetUrl;
+  }
+}
+
+/**
+ * Gets the transports to try, preferred one first.
+ */
+export function getTransportOrder(settings: TransportSettings = transportSettings): FetchTransport[] {
+  return [settings.transport, ...TRANSPORT_FALLBACK_ORDER.filter((transport) => transport !== settings.transport)];
+}
+
+/**
+ * Sends a request through the configured transport, falling back to the other transports
+ * when it is not available or fails (proxy down or blocked by policy, CORS blocked).
+ * Any failure of a proxy falls through, since the proxy itself may be the problem.
+ * Only an HTTP error of the server itself (direct request) is returned at once.
+ * Credentials are added as an Authorization header; they are never logged.
+ *
+ * @param url Calendar URL (http or https).
+ * @param init Request options.
+ * @param options Retry settings of each transport and credentials.
+ * @throws FetchError When no transport could fetch the URL.
+ */
+export async function fetchWithTransport(
+  url: string,
+  init: RequestInit = {},
+  options: TransportOptions = {}
+): Promise<TransportResult> {
+  const { auth, ...retryOptions } = options;
+  const errors: FetchAttemptError[] = [];
+
+  if (auth) {
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", buildAuthorizationHeader(auth));
+    init = { ...init, headers };
+  }
+
+  for (const transport of getTransportOrder()) {
+    const requestUrl = buildTransportUrl(transport, url);
+    if (!requestUrl) {
+      logDebug("fetch_transport_unavailable", { url, transport });
+      continue;
+    }
+
+    try {
+      const result = await fetchWithRetry(requestUrl, init, retryOptions);
+      const retried = result.errors.map((error) => ({ ...error, url, transport }));
+      return { ...result, errors: [...errors, ...retried], transport };
+    } catch (error) {
+      if (!(error instanceof FetchError)) throw error;
+      errors.push(...error.errors.map((attempt) => ({ ...attempt, url, transport })));
+      // The server answered itself: another route gets the same answer
+      if (transport === "direct" && error.kind === "permanent" && error.status !== undefined) break;
+      logDebug("fetch_transport_fallback", { url, transport, error: error.message });
+    }
+  }
+
+  if (errors.length === 0) {
+    throw new Error("No fetch transport available. Set a proxy URL or use direct fetch.");
+  }
+  throw new FetchError(errors);
+}
@@ -1,5 +1,19 @@
 import ICAL from "ical.js";
 import { logDebug, logError, logInfo } from "./logger";
+import { getZonedDateParts, isValidTimeZone, startOfDayInZone, zonedTimeToDate } from "./timezone";
+import { extractConferenceDetails, type ConferenceDetails } from "./conference";
+import { repairICalContent, splitComponentBlocks, type ICalRepair } from "./repair";
+import { detectCalendarFormat, toICalendarText, type CalendarFormat } from "./formats";
+import { DEFAULT_FETCH_CONCURRENCY } from "./constants";
+import {
+  FetchError,
+  describeAuth,
+  fetchWithTransport,
+  type CalendarAuth,
+  type FetchAttemptError,
+  type FetchErrorKind,
+} from "./http";
+import { clearCalDavCache, fetchCalDavCalendar } from "./caldav";
 
 /**
  * Cache entry for incremental sync.
@@ -25,6 +39,7 @@ const calendarCache = new Map<string, CalendarCacheEntry>();
  */
 export function clearCalendarCache(): void {
   calendarCache.clear();
+  clearCalDavCache();
   logDebug("cache_cleared", { message: "Calendar cache cleared" });
 }
 
@@ -67,30 +82,38 @@ function yieldToMain(): Promise<void> {
 }
 
 /**
- * Gets the CORS proxy URL from Roam's native API.
- * Uses roamAlphaAPI.constants.corsAnywhereProxyUrl which is hosted by the Roam team.
- * @see https://roamresearch.com/#/app/developer-documentation/page/TuLoib22N
+ * Number of operations between yields during parsing.
  */
-function getRoamProxyUrl(): string {
-  const roamAPI = (window as unknown as {
-    roamAlphaAPI?: {
-      constants?: {
-        corsAnywhereProxyUrl?: string;
-      };
-    };
-  }).roamAlphaAPI;
+const PARSE_YIELD_BATCH_SIZE = 50;
 
-  const proxyUrl = roamAPI?.constants?.corsAnywhereProxyUrl;
-  if (!proxyUrl) {
-    throw new Error("Roam CORS proxy URL not available. Make sure you are running in Roam Research.");
-  }
-  return proxyUrl;
-}
+/**
+ * Upper bound of occurrences walked per recurring event.
+ * Protects against unbounded rules (e.g. FREQ=MINUTELY without COUNT/UNTIL).
+ */
+const MAX_RECURRENCE_ITERATIONS = 10000;
 
 /**
- * Number of operations between yields during parsing.
+ * Length in seconds of one period of the frequencies whose series are fast-forwarded
+ * to the date range (see getIterationStart).
  */
-const PARSE_YIELD_BATCH_SIZE = 50;
+const RECURRENCE_PERIOD_SECONDS: Partial<Record<string, number>> = {
+  SECONDLY: 1,
+  MINUTELY: 60,
+  HOURLY: 60 * 60,
+  DAILY: 24 * 60 * 60,
+  WEEKLY: 7 * 24 * 60 * 60,
+};
+
+/**
+ * Margin kept before the date range when fast-forwarding a series,
+ * so floating times and DST shifts never skip an occurrence at the start of the range.
+ */
+const RECURRENCE_START_MARGIN_SECONDS = 24 * 60 * 60;
+
+/**
+ * Number of recurrence iterations between yields during expansion.
+ */
+const RECURRENCE_YIELD_BATCH_SIZE = 500;
 
 /**
  * Represents a parsed iCal event.
@@ -99,19 +122,153 @@ export interface ICalEvent {
   uid: string;
   summary: string;
   description: string;
+  /** HTML version of the description (X-ALT-DESC;FMTTYPE=text/html) */
+  htmlDescription?: string;
   dtstart: Date | null;
   dtend: Date | null;
   location: string;
   url: string;
   meetingUrl?: string;
-  attendees: { name: string; email: string }[];
+  /** Where meetingUrl was found */
+  meetingUrlSource?: MeetingUrlSource;
+  /** All detected conference links, main link (meetingUrl) first */
+  meetingLinks?: MeetingLink[];
+  /** Dial-in numbers, meeting ID and passcode found in location/description */
+  conference?: ConferenceDetails;
+  attendees: ICalAttendee[];
+  /** ORGANIZER of the event */
+  organizer?: ICalAttendee;
+  /** RECURRENCE-ID of the occurrence (iCal format) when expanded from a recurring event */
+  recurrenceId?: string;
+  /** True when DTSTART is DATE-valued (no time of day) */
+  allDay?: boolean;
+  /** STATUS property (CONFIRMED, TENTATIVE or CANCELLED) */
+  status?: EventStatus;
+  /** TRANSP property; TRANSPARENT events do not block time */
+  transparency?: EventTransparency;
+  /** CATEGORIES values, in order of appearance */
+  categories?: string[];
+  /** CLASS property; PRIVATE and CONFIDENTIAL events can be redacted */
+  classification?: EventClassification;
+}
+
+/**
+ * Access classification values defined by RFC 5545 (CLASS).
+ */
+export type EventClassification = "PUBLIC" | "PRIVATE" | "CONFIDENTIAL";
+
+/**
+ * Where a meeting URL was found: a structured conference property
+ * (RFC 7986 CONFERENCE, Google or Microsoft extensions) or a pattern match in a text field.
+ */
+export type MeetingUrlSource =
+  | "conference"
+  | "x-google-conference"
+  | "x-microsoft-skypeteamsmeetingurl"
+  | "location"
+  | "description"
+  | "url";
+
+/**
+ * A detected video conference link.
+ */
+export interface MeetingLink {
+  url: string;
+  /** Service name (e.g. "Zoom", "Google Meet") */
+  service: string;
+  source: MeetingUrlSource;
+}
+
+/**
+ * Task status values defined by RFC 5545 (STATUS on VTODO).
+ */
+export type TodoStatus = "NEEDS-ACTION" | "COMPLETED" | "IN-PROCESS" | "CANCELLED";
+
+/**
+ * Represents a parsed iCal task (VTODO).
+ */
+export interface ICalTodo {
+  uid: string;
+  summary: string;
+  description: string;
+  /** DUE date of the task */
+  due: Date | null;
+  /** True when DUE is DATE-valued (no time of day) */
+  allDay?: boolean;
+  /** COMPLETED timestamp */
+  completed: Date | null;
+  status?: TodoStatus;
+  /** PRIORITY from 1 (highest) to 9 (lowest); undefined when not set (0) */
+  priority?: number;
+  url: string;
+  categories?: string[];
+  classification?: EventClassification;
+}
+
+/**
+ * Participation status of an attendee (PARTSTAT).
+ */
+export type ParticipationStatus = "NEEDS-ACTION" | "ACCEPTED" | "DECLINED" | "TENTATIVE" | "DELEGATED";
+
+/**
+ * Participation role of an attendee (ROLE).
+ */
+export type AttendeeRole = "CHAIR" | "REQ-PARTICIPANT" | "OPT-PARTICIPANT" | "NON-PARTICIPANT";
+
+/**
+ * Represents an event participant (ATTENDEE or ORGANIZER).
+ */
+export interface ICalAttendee {
+  name: string;
+  email: string;
+  /** PARTSTAT parameter (ATTENDEE only) */
+  partstat?: ParticipationStatus;
+  /** ROLE parameter (ATTENDEE only) */
+  role?: AttendeeRole;
+  /** RSVP parameter: whether a reply is requested */
+  rsvp?: boolean;
+}
+
+/**
+ * Event status values defined by RFC 5545 (STATUS on VEVENT).
+ */
+export type EventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+/**
+ * Time transparency values defined by RFC 5545 (TRANSP).
+ */
+export type EventTransparency = "OPAQUE" | "TRANSPARENT";
+
+/**
+ * What to do with events whose STATUS is CANCELLED.
+ */
+export type CancelledEventsMode = "skip" | "strikethrough" | "tag";
+
+/**
+ * Options that control how iCal content is turned into events.
+ */
+export interface ParseOptions {
+  /** Window used to materialize occurrences of recurring events */
+  range?: DateRangeConfig;
+  /** IANA timezone for floating and all-day times (defaults to the browser's local time) */
+  timeZone?: string;
+  /** Custom meeting URL patterns, matched before the built-in ones */
+  meetingUrlPatterns?: MeetingUrlPattern[];
+}
+
+/**
+ * A video conference URL pattern with the name of its service.
+ */
+export interface MeetingUrlPattern {
+  name: string;
+  pattern: RegExp;
 }
 
 /**
  * Meeting service patterns for video conference URL detection.
  * Each pattern includes the service name for logging/debugging.
  */
-const MEETING_URL_PATTERNS: { name: string; pattern: RegExp }[] = [
+const MEETING_URL_PATTERNS: MeetingUrlPattern[] = [
   // Zoom: matches /j/, /my/, /s/ (webinar), and /wc/ links
   {
     name: "Zoom",
@@ -221,19 +378,14 @@ const MEETING_URL_PATTERNS: { name: string; pattern: RegExp }[] = [
  * RingCentral, Loom, Around, Skype, Gather, Tuple, Pop, Riverside, StreamYard.
  *
  * @param text Text to search for meeting URLs.
+ * @param customPatterns Custom patterns, matched before the built-in ones.
  * @returns First matching meeting URL found, or undefined.
  */
-export function extractMeetingUrl(text: string | null | undefined): string | undefined {
-  if (!text) return undefined;
-
-  for (const { pattern } of MEETING_URL_PATTERNS) {
-    const match = text.match(pattern);
-    if (match) {
-      return match[0];
-    }
-  }
-
-  return undefined;
+export function extractMeetingUrl(
+  text: string | null | undefined,
+  customPatterns: MeetingUrlPattern[] = []
+): string | undefined {
+  return extractMeetingUrlWithService(text, customPatterns)?.url;
 }
 
 /**
@@ -241,14 +393,16 @@ export function extractMeetingUrl(text: string | null | undefined): string | und
  * Useful for logging and debugging.
  *
  * @param text Text to search for meeting URLs.
+ * @param customPatterns Custom patterns, matched before the built-in ones.
  * @returns Object with URL and service name, or undefined.
  */
 export function extractMeetingUrlWithService(
-  text: string | null | undefined
+  text: string | null | undefined,
+  customPatterns: MeetingUrlPattern[] = []
 ): { url: string; service: string } | undefined {
   if (!text) return undefined;
 
-  for (const { name, pattern } of MEETING_URL_PATTERNS) {
+  for (const { name, pattern } of [...customPatterns, ...MEETING_URL_PATTERNS]) {
     const match = text.match(pattern);
     if (match) {
       return { url: match[0], service: name };
@@ -258,6 +412,145 @@ export function extractMeetingUrlWithService(
   return undefined;
 }
 
+/**
+ * Extracts every meeting URL in a text, with its service name.
+ * Custom patterns are matched first; within a pattern, links keep their order in the text.
+ *
+ * @param text Text to search for meeting URLs.
+ * @param customPatterns Custom patterns, matched before the built-in ones.
+ * @returns Matches without duplicates (empty if none).
+ */
+export function extractAllMeetingUrls(
+  text: string | null | undefined,
+  customPatterns: MeetingUrlPattern[] = []
+): { url: string; service: string }[] {
+  if (!text) return [];
+
+  const matches: { url: string; service: string }[] = [];
+  const seen = new Set<string>();
+  for (const { name, pattern } of [...customPatterns, ...MEETING_URL_PATTERNS]) {
+    const flags = pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`;
+    const globalPattern = new RegExp(pattern.source, flags);
+    for (const match of text.matchAll(globalPattern)) {
+      if (!seen.has(match[0])) {
+        seen.add(match[0]);
+        matches.push({ url: match[0], service: name });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Structured conference properties, in priority order.
+ */
+const CONFERENCE_PROPERTIES: MeetingUrlSource[] = [
+  "conference",
+  "x-google-conference",
+  "x-microsoft-skypeteamsmeetingurl",
+];
+
+/**
+ * Service names of the vendor conference properties.
+ */
+const CONFERENCE_PROPERTY_SERVICES: Partial<Record<MeetingUrlSource, string>> = {
+  "x-google-conference": "Google Meet",
+  "x-microsoft-skypeteamsmeetingurl": "Microsoft Teams",
+};
+
+/**
+ * Identifies the service of a meeting URL from a conference property.
+ * Vendor properties name their service; CONFERENCE links are matched against the
+ * meeting patterns, then fall back to their LABEL parameter or host name.
+ */
+function getConferenceService(
+  source: MeetingUrlSource,
+  property: ICAL.Property,
+  url: string,
+  customPatterns: MeetingUrlPattern[]
+): string {
+  const vendorService = CONFERENCE_PROPERTY_SERVICES[source];
+  if (vendorService) return vendorService;
+
+  const matched = extractMeetingUrlWithService(url, customPatterns);
+  if (matched) return matched.service;
+
+  const label = property.getParameter("label");
+  if (typeof label === "string" && label.trim()) return label.trim();
+
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return "Meeting";
+  }
+}
+
+/**
+ * Reads meeting links from structured conference properties, in property priority order.
+ * CONFERENCE properties may also carry phone (tel:) or chat URIs, so only web links are used,
+ * with links that have a VIDEO feature first.
+ *
+ * @param component VEVENT component.
+ * @param customPatterns Custom patterns used to name the service of CONFERENCE links.
+ */
+function getStructuredMeetingLinks(component: ICAL.Component, customPatterns: MeetingUrlPattern[]): MeetingLink[] {
+  const links: MeetingLink[] = [];
+
+  for (const source of CONFERENCE_PROPERTIES) {
+    const candidates: { link: MeetingLink; video: boolean }[] = [];
+    for (const property of component.getAllProperties(source)) {
+      const url = String(property.getFirstValue() ?? "").trim();
+      if (!/^https?:\/\//i.test(url)) continue;
+
+      const feature = property.getParameter("feature");
+      const features = (Array.isArray(feature) ? feature.join(",") : String(feature ?? "")).toUpperCase();
+      candidates.push({
+        link: { url, service: getConferenceService(source, property, url, customPatterns), source },
+        video: features.includes("VIDEO"),
+      });
+    }
+
+    // Stable sort: video links first, otherwise in file order
+    candidates.sort((a, b) => Number(b.video) - Number(a.video));
+    links.push(...candidates.map((candidate) => candidate.link));
+  }
+
+  return links;
+}
+
+/**
+ * Finds all meeting links of an event.
+ * Structured conference properties come first; links matched by MEETING_URL_PATTERNS
+ * in location, description and URL follow. The first link is the main one.
+ *
+ * @param component VEVENT component.
+ * @param fields Text fields to search for meeting links.
+ * @param customPatterns Custom patterns, matched before the built-in ones.
+ * @returns Links without duplicates, main link first.
+ */
+function findMeetingLinks(
+  component: ICAL.Component,
+  fields: { location: string; description: string; url: string },
+  customPatterns: MeetingUrlPattern[] = []
+): MeetingLink[] {
+  const links = getStructuredMeetingLinks(component, customPatterns);
+
+  const textSources: ("location" | "description" | "url")[] = ["location", "description", "url"];
+  for (const source of textSources) {
+    for (const { url, service } of extractAllMeetingUrls(fields[source], customPatterns)) {
+      links.push({ url, service, source });
+    }
+  }
+
+  const seen = new Set<string>();
+  return links.filter((link) => {
+    if (seen.has(link.url)) return false;
+    seen.add(link.url);
+    return true;
+  });
+}
+
 /**
  * Represents a calendar with its metadata and events.
  */
@@ -265,6 +558,9 @@ export interface ICalCalendar {
   name: string;
   url: string;
   events: ICalEvent[];
+  todos: ICalTodo[];
+  /** Redaction policy for private events and tasks (from the calendar configuration) */
+  privateEvents?: PrivateEventsPolicy;
 }
 
 /**
@@ -273,8 +569,30 @@ export interface ICalCalendar {
 export interface CalendarConfig {
   name: string;
   url: string;
+  /** How events marked CLASS:PRIVATE or CONFIDENTIAL are written (defaults to "show") */
+  privateEvents?: PrivateEventsPolicy;
+  /** Credentials sent to the server (from the Calendar Credentials setting) */
+  auth?: CalendarAuth;
+  /** Where events come from (defaults to "ics") */
+  source?: CalendarSource;
 }
 
+/**
+ * Sources of calendar events:
+ * - ics: an iCalendar (or jCal/xCal) feed downloaded as a whole
+ * - caldav: a CalDAV server, queried for the events of the sync window
+ */
+export type CalendarSource = "ics" | "caldav";
+
+/**
+ * Redaction policy for private events:
+ * - show: write them like any other event
+ * - busy: write only the time, titled "Busy"
+ * - title: write only the time and title
+ * - skip: don't write them at all
+ */
+export type PrivateEventsPolicy = "show" | "busy" | "title" | "skip";
+
 const MONTH_NAMES = [
   "January",
   "February",
@@ -312,8 +630,16 @@ function getOrdinalSuffix(day: number): string {
 
 /**
  * Formats a Date into Roam-style date (e.g., "January 2nd, 2025").
+ *
+ * @param date Date to format.
+ * @param timeZone Optional IANA timezone whose calendar day is used (defaults to local time).
  */
-export function formatRoamDate(date: Date): string {
+export function formatRoamDate(date: Date, timeZone?: string): string {
+  if (timeZone) {
+    const parts = getZonedDateParts(date, timeZone);
+    return `${MONTH_NAMES[parts.month - 1]} ${parts.day}${getOrdinalSuffix(parts.day)}, ${parts.year}`;
+  }
+
   const month = MONTH_NAMES[date.getMonth()];
   const day = date.getDate();
   const year = date.getFullYear();
@@ -321,33 +647,650 @@ export function formatRoamDate(date: Date): string {
 }
 
 /**
- * Converts an ICAL.Time to a JavaScript Date.
+ * Clock format used when rendering event times.
+ */
+export type TimeFormat = "12h" | "24h";
+
+/**
+ * Formats the time of day of a Date (e.g., "14:05" or "2:05 PM").
+ *
+ * @param date Date to format.
+ * @param format Clock format.
+ * @param timeZone Optional IANA timezone whose wall-clock time is used (defaults to local time).
+ */
+export function formatTime(date: Date, format: TimeFormat = "24h", timeZone?: string): string {
+  const { hour, minute } = timeZone
+    ? getZonedDateParts(date, timeZone)
+    : { hour: date.getHours(), minute: date.getMinutes() };
+  const minutes = String(minute).padStart(2, "0");
+
+  if (format === "12h") {
+    const suffix = hour < 12 ? "AM" : "PM";
+    const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+    return `${hour12}:${minutes} ${suffix}`;
+  }
+  return `${String(hour).padStart(2, "0")}:${minutes}`;
+}
+
+/**
+ * Formats a duration in milliseconds (e.g., "45m", "1h 30m", "2d").
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  const parts: string[] = [];
+  if (days) parts.push(`${days}d`);
+  if (hours) parts.push(`${hours}h`);
+  if (minutes || parts.length === 0) parts.push(`${minutes}m`);
+  return parts.join(" ");
+}
+
+/**
+ * Gets the TZIDs defined by the VTIMEZONE components of a calendar.
+ * ical.js resolves TZID references through these definitions of the same calendar,
+ * so one feed's definitions never affect another feed.
+ */
+function getDefinedTzids(comp: ICAL.Component): Set<string> {
+  const tzids = new Set<string>();
+  for (const vtimezone of comp.getAllSubcomponents("vtimezone")) {
+    const tzid = String(vtimezone.getFirstPropertyValue("tzid") || "");
+    if (tzid) tzids.add(tzid);
+  }
+  return tzids;
+}
+
+/**
+ * Gets the TZID parameter of a date property (e.g. "Europe/Berlin"), if any.
+ */
+function getTzidParameter(component: ICAL.Component, propertyName: string): string | undefined {
+  const tzid = component.getFirstProperty(propertyName)?.getParameter("tzid");
+  return typeof tzid === "string" && tzid ? tzid : undefined;
+}
+
+/**
+ * Converts an ICAL.Time to a JavaScript Date.
+ * - UTC times and times in a defined VTIMEZONE are absolute instants.
+ * - TZIDs without a VTIMEZONE are resolved through the runtime when they are IANA names.
+ * - Floating and all-day (DATE) times are wall-clock times in the display timezone.
+ *
+ * @param icalTime Time to convert.
+ * @param tzid TZID parameter of the property the time comes from.
+ * @param timeZone Display timezone for floating and all-day times (defaults to local time).
+ */
+function icalTimeToDate(icalTime: ICAL.Time | null, tzid?: string, timeZone?: string): Date | null {
+  if (!icalTime) return null;
+  try {
+    const isFloating = icalTime.isDate || !icalTime.zone || icalTime.zone === ICAL.Timezone.localTimezone;
+    if (!isFloating) {
+      return icalTime.toJSDate();
+    }
+
+    // A TZID ical.js could not resolve ends up floating; the runtime may still know it
+    const wallClockZone = !icalTime.isDate && tzid && isValidTimeZone(tzid) ? tzid : timeZone;
+    if (!wallClockZone) {
+      return icalTime.toJSDate();
+    }
+
+    return zonedTimeToDate(
+      {
+        year: icalTime.year,
+        month: icalTime.month,
+        day: icalTime.day,
+        hour: icalTime.isDate ? 0 : icalTime.hour,
+        minute: icalTime.isDate ? 0 : icalTime.minute,
+        second: icalTime.isDate ? 0 : icalTime.second,
+      },
+      wallClockZone
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts the start and end of an event (or one of its occurrences) to Dates.
+ * TZID parameters are read from the event's own DTSTART/DTEND properties.
+ * Events with a DATE-valued start are flagged as all-day.
+ */
+function getEventDates(
+  event: ICAL.Event,
+  startDate: ICAL.Time | null,
+  endDate: ICAL.Time | null,
+  timeZone?: string
+): { dtstart: Date | null; dtend: Date | null; allDay: boolean } {
+  const startTzid = getTzidParameter(event.component, "dtstart");
+  // Events with DURATION instead of DTEND derive their end from DTSTART
+  const endTzid = getTzidParameter(event.component, "dtend") ?? startTzid;
+
+  return {
+    dtstart: icalTimeToDate(startDate, startTzid, timeZone),
+    dtend: icalTimeToDate(endDate, endTzid, timeZone),
+    allDay: !!startDate?.isDate,
+  };
+}
+
+/**
+ * Reads an upper-cased enumerated property value, keeping only known values.
+ */
+function getEnumProperty<T extends string>(
+  component: ICAL.Component,
+  propertyName: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = String(component.getFirstPropertyValue(propertyName) || "").trim().toUpperCase();
+  return (allowed as readonly string[]).includes(value) ? (value as T) : undefined;
+}
+
+const EVENT_STATUSES: readonly EventStatus[] = ["CONFIRMED", "TENTATIVE", "CANCELLED"];
+const EVENT_TRANSPARENCIES: readonly EventTransparency[] = ["OPAQUE", "TRANSPARENT"];
+const EVENT_CLASSIFICATIONS: readonly EventClassification[] = ["PUBLIC", "PRIVATE", "CONFIDENTIAL"];
+const TODO_STATUSES: readonly TodoStatus[] = ["NEEDS-ACTION", "COMPLETED", "IN-PROCESS", "CANCELLED"];
+const PARTICIPATION_STATUSES: readonly ParticipationStatus[] = [
+  "NEEDS-ACTION",
+  "ACCEPTED",
+  "DECLINED",
+  "TENTATIVE",
+  "DELEGATED",
+];
+const ATTENDEE_ROLES: readonly AttendeeRole[] = ["CHAIR", "REQ-PARTICIPANT", "OPT-PARTICIPANT", "NON-PARTICIPANT"];
+
+/**
+ * Reads an upper-cased enumerated parameter of a property, keeping only known values.
+ */
+function getEnumParameter<T extends string>(
+  property: ICAL.Property,
+  parameterName: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = String(property.getParameter(parameterName) || "").trim().toUpperCase();
+  return (allowed as readonly string[]).includes(value) ? (value as T) : undefined;
+}
+
+/**
+ * Reads the HTML description of a component (X-ALT-DESC with FMTTYPE=text/html), if any.
+ */
+function getHtmlDescription(component: ICAL.Component): string | undefined {
+  for (const property of component.getAllProperties("x-alt-desc")) {
+    const fmttype = String(property.getParameter("fmttype") || "").toLowerCase();
+    const value = property.getFirstValue();
+    if (fmttype === "text/html" && typeof value === "string" && value.trim()) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads all CATEGORIES values of a component.
+ * A component may have several CATEGORIES properties, each with comma-separated values.
+ */
+function getCategories(component: ICAL.Component): string[] {
+  const categories = new Set<string>();
+  for (const property of component.getAllProperties("categories")) {
+    for (const value of property.getValues()) {
+      const category = String(value ?? "").trim();
+      if (category) {
+        categories.add(category);
+      }
+    }
+  }
+  return Array.from(categories);
+}
+
+/**
+ * Builds a participant from an ATTENDEE or ORGANIZER property.
+ * Returns undefined when the property has neither a name (CN) nor an address.
+ */
+function buildParticipant(property: ICAL.Property): ICalAttendee | undefined {
+  const cn = property.getParameter("cn");
+  const name = typeof cn === "string" ? cn : "";
+  const value = property.getFirstValue();
+  const email = typeof value === "string" ? value.replace(/^mailto:/i, "") : "";
+
+  if (!name && !email) return undefined;
+
+  const participant: ICalAttendee = { name, email };
+
+  const partstat = getEnumParameter(property, "partstat", PARTICIPATION_STATUSES);
+  if (partstat) participant.partstat = partstat;
+
+  const role = getEnumParameter(property, "role", ATTENDEE_ROLES);
+  if (role) participant.role = role;
+
+  const rsvp = property.getParameter("rsvp");
+  if (typeof rsvp === "string" && rsvp) participant.rsvp = rsvp.toUpperCase() === "TRUE";
+
+  return participant;
+}
+
+/**
+ * Builds an ICalEvent from an ical.js event, using its own start and end dates.
+ *
+ * @param event ical.js event.
+ * @param options Parsing options (display timezone, custom meeting URL patterns).
+ */
+function buildICalEvent(event: ICAL.Event, options: ParseOptions = {}): ICalEvent {
+  const { timeZone } = options;
+  const location = event.location || "";
+  const url = String(event.component.getFirstPropertyValue("url") || "");
+  const description = event.description || "";
+
+  // Extract attendees and organizer
+  const attendees: ICalAttendee[] = [];
+  for (const property of event.attendees ?? []) {
+    const attendee = buildParticipant(property);
+    if (attendee) {
+      attendees.push(attendee);
+    }
+  }
+
+  const organizerProperty = event.component.getFirstProperty("organizer");
+  const organizer = organizerProperty ? buildParticipant(organizerProperty) : undefined;
+
+  // Structured conference properties first, then location, description or explicit URL property
+  const meetingLinks = findMeetingLinks(
+    event.component,
+    { location, description, url },
+    options.meetingUrlPatterns
+  );
+  const meeting = meetingLinks[0];
+
+  return {
+    uid: event.uid || "",
+    summary: event.summary || "",
+    description: description,
+    htmlDescription: getHtmlDescription(event.component),
+    ...getEventDates(event, event.startDate, event.endDate, timeZone),
+    location: location,
+    url: url,
+    meetingUrl: meeting?.url,
+    meetingUrlSource: meeting?.source,
+    meetingLinks,
+    conference: extractConferenceDetails(location, description),
+    attendees,
+    organizer,
+    status: getEnumProperty(event.component, "status", EVENT_STATUSES),
+    transparency: getEnumProperty(event.component, "transp", EVENT_TRANSPARENCIES),
+    categories: getCategories(event.component),
+    classification: getEnumProperty(event.component, "class", EVENT_CLASSIFICATIONS),
+  };
+}
+
+/**
+ * Builds an ICalTodo from a VTODO component.
+ * Recurring tasks are not expanded; the task is read as written.
+ *
+ * @param vtodo VTODO component.
+ * @param timeZone Display timezone for floating and all-day times.
+ */
+function buildICalTodo(vtodo: ICAL.Component, timeZone?: string): ICalTodo {
+  const due = vtodo.getFirstPropertyValue("due") as ICAL.Time | null;
+  const completed = vtodo.getFirstPropertyValue("completed") as ICAL.Time | null;
+  const priority = Number(vtodo.getFirstPropertyValue("priority") || 0);
+
+  return {
+    uid: String(vtodo.getFirstPropertyValue("uid") || ""),
+    summary: String(vtodo.getFirstPropertyValue("summary") || ""),
+    description: String(vtodo.getFirstPropertyValue("description") || ""),
+    due: icalTimeToDate(due, getTzidParameter(vtodo, "due"), timeZone),
+    allDay: !!due?.isDate,
+    completed: icalTimeToDate(completed, undefined, timeZone),
+    status: getEnumProperty(vtodo, "status", TODO_STATUSES),
+    priority: priority >= 1 && priority <= 9 ? priority : undefined,
+    url: String(vtodo.getFirstPropertyValue("url") || ""),
+    categories: getCategories(vtodo),
+    classification: getEnumProperty(vtodo, "class", EVENT_CLASSIFICATIONS),
+  };
+}
+
+/**
+ * Builds the identity of a single event instance.
+ * Occurrences of a recurring event share the UID, so the recurrence id is part of the identity.
+ *
+ * @param uid Event UID.
+ * @param recurrenceId Optional RECURRENCE-ID of the occurrence.
+ * @returns Composite identity (UID + recurrence id).
+ */
+export function getEventInstanceId(uid: string, recurrenceId?: string): string {
+  return recurrenceId ? `${uid}|${recurrenceId}` : uid;
+}
+
+/**
+ * Builds an ICalEvent for a RECURRENCE-ID override that was not matched to a generated occurrence
+ * (e.g. the master is missing, or the occurrence was moved in from outside the range).
+ */
+function buildExceptionEvent(exception: ICAL.Event, options: ParseOptions = {}): ICalEvent {
+  return {
+    ...buildICalEvent(exception, options),
+    recurrenceId: exception.recurrenceId.toICALString(),
+  };
+}
+
+/**
+ * Finds where to start walking a series so long-running rules reach the date range
+ * within MAX_RECURRENCE_ITERATIONS.
+ * DTSTART is moved forward by whole rule periods, which keeps every occurrence of the rule;
+ * rules whose occurrences depend on the first one (COUNT, BYSETPOS, several RRULEs)
+ * and monthly or yearly rules are walked from DTSTART.
+ *
+ * @param event Recurring ical.js event.
+ * @param rangeStart Start of the date range.
+ * @returns Start time for the iterator, or undefined to start at DTSTART.
+ */
+function getIterationStart(event: ICAL.Event, rangeStart: Date): ICAL.Time | undefined {
+  const rules = event.component.getAllProperties("rrule");
+  if (rules.length !== 1) return undefined;
+
+  const rule = rules[0].getFirstValue() as ICAL.Recur;
+  const period = RECURRENCE_PERIOD_SECONDS[rule.freq];
+  if (!period || rule.count || rule.parts.BYSETPOS) return undefined;
+
+  const dtstart = event.startDate;
+  const periodSeconds = period * (rule.interval || 1);
+  const target = rangeStart.getTime() / 1000 - RECURRENCE_START_MARGIN_SECONDS - periodSeconds;
+  const periods = Math.floor((target - dtstart.toUnixTime()) / periodSeconds);
+  if (periods <= 0) return undefined;
+
+  // Whole days keep the wall-clock time (and work for all-day events)
+  const shifted = dtstart.clone();
+  if (periodSeconds % RECURRENCE_PERIOD_SECONDS.DAILY! === 0) {
+    shifted.adjust((periods * periodSeconds) / RECURRENCE_PERIOD_SECONDS.DAILY!, 0, 0, 0);
+  } else if (!dtstart.isDate) {
+    shifted.adjust(0, 0, 0, periods * periodSeconds);
+  } else {
+    return undefined;
+  }
+  return shifted;
+}
+
+/**
+ * Occurrences of a recurring event inside the date range.
+ */
+interface RecurrenceExpansion {
+  occurrences: ICalEvent[];
+  /** MAX_RECURRENCE_ITERATIONS was reached before the end of the range */
+  truncated: boolean;
+}
+
+/**
+ * Materializes the occurrences of a recurring event that start inside the date range.
+ * RRULE, RDATE and EXDATE are resolved by ical.js; each occurrence gets its own start and end.
+ * Related RECURRENCE-ID overrides replace the occurrence they modify.
+ * Yields to main thread periodically because long-running series can still need many iterations.
+ *
+ * @param event Recurring ical.js event.
+ * @param range Date range to materialize occurrences for.
+ * @param options Parsing options (display timezone, custom meeting URL patterns).
+ */
+async function expandRecurringEvent(
+  event: ICAL.Event,
+  range: DateRangeConfig,
+  options: ParseOptions = {}
+): Promise<RecurrenceExpansion> {
+  const { timeZone } = options;
+  const { start, end } = getDateRangeBounds(range);
+  const occurrences: ICalEvent[] = [];
+  const iterator = event.iterator(getIterationStart(event, start));
+  const startTzid = getTzidParameter(event.component, "dtstart");
+
+  for (let i = 0; i < MAX_RECURRENCE_ITERATIONS; i++) {
+    const next = iterator.next();
+    if (!next) return { occurrences, truncated: false };
+
+    // Stop on the rule's own time: an override moved past the window must not end the expansion
+    const recurrenceStart = icalTimeToDate(next, startTzid, timeZone);
+    if (recurrenceStart && recurrenceStart >= end) return { occurrences, truncated: false };
+
+    const details = event.getOccurrenceDetails(next);
+    const dates = getEventDates(details.item, details.startDate, details.endDate, timeZone);
+    if (dates.dtstart && dates.dtstart >= start && dates.dtstart < end) {
+      occurrences.push({
+        ...buildICalEvent(details.item, options),
+        ...dates,
+        recurrenceId: details.recurrenceId.toICALString(),
+      });
+    }
+
+    if ((i + 1) % RECURRENCE_YIELD_BATCH_SIZE === 0) {
+      await yieldToMain();
+    }
+  }
+
+  return { occurrences, truncated: true };
+}
+
+/**
+ * Events and tasks parsed from iCal content.
+ */
+export interface ParsedCalendar {
+  events: ICalEvent[];
+  todos: ICalTodo[];
+  diagnostics: ParseDiagnostics;
+}
+
+/**
+ * Why a component could not be read as-is:
+ * - missing-uid: no UID property (the component can't be kept in sync)
+ * - invalid-dtstart: DTSTART is missing or can't be converted to a date
+ * - unknown-tzid: TZID has neither a VTIMEZONE nor an IANA name (time read in the display timezone)
+ * - invalid-component: ical.js failed to read the component
+ * - recurrence-limit: the series has too many occurrences before the end of the range (later ones are missing)
+ */
+export type ParseIssueReason =
+  | "missing-uid"
+  | "invalid-dtstart"
+  | "unknown-tzid"
+  | "invalid-component"
+  | "recurrence-limit";
+
+/**
+ * A problem found in one component of a calendar.
+ */
+export interface ParseIssue {
+  component: "VEVENT" | "VTODO";
+  reason: ParseIssueReason;
+  uid?: string;
+  summary?: string;
+  /** Error message, for invalid-component issues */
+  message?: string;
+}
+
+/**
+ * What went wrong while parsing a calendar.
+ */
+export interface ParseDiagnostics {
+  /** Components that were dropped */
+  skipped: ParseIssue[];
+  /** Components that were kept with a fallback (e.g. unknown TZID) */
+  warnings: ParseIssue[];
+  /** Fixes applied to malformed content before it could be parsed */
+  repairs?: ICalRepair[];
+  /** Error that prevented reading the calendar at all */
+  fatalError?: string;
+}
+
+/**
+ * Creates empty diagnostics.
+ */
+export function createParseDiagnostics(): ParseDiagnostics {
+  return { skipped: [], warnings: [] };
+}
+
+/**
+ * Builds a parse issue for a component, with its UID and title when available.
+ */
+function buildParseIssue(
+  component: ICAL.Component,
+  reason: ParseIssueReason,
+  message?: string
+): ParseIssue {
+  const uid = component.getFirstPropertyValue("uid");
+  const summary = component.getFirstPropertyValue("summary");
+  return {
+    component: component.name.toUpperCase() === "VTODO" ? "VTODO" : "VEVENT",
+    reason,
+    ...(uid ? { uid: String(uid) } : {}),
+    ...(summary ? { summary: String(summary) } : {}),
+    ...(message ? { message } : {}),
+  };
+}
+
+/**
+ * Checks the UID and DTSTART of an event component before it is read.
+ *
+ * @returns The reason to skip the component, or undefined if it can be read.
+ */
+function getEventSkipReason(vevent: ICAL.Component): ParseIssueReason | undefined {
+  if (!vevent.getFirstPropertyValue("uid")) return "missing-uid";
+  if (!vevent.getFirstPropertyValue("dtstart")) return "invalid-dtstart";
+  return undefined;
+}
+
+/**
+ * Checks if the DTSTART of an event references a TZID that can't be resolved,
+ * neither through a VTIMEZONE of the calendar nor as an IANA timezone.
+ */
+function hasUnknownTzid(vevent: ICAL.Component, definedTzids: Set<string>): boolean {
+  const tzid = getTzidParameter(vevent, "dtstart");
+  return !!tzid && !definedTzids.has(tzid) && !isValidTimeZone(tzid);
+}
+
+/**
+ * Parses calendar content with ical.js, after the repair pass for malformed feeds.
+ * If the content still can't be parsed as a whole, its components are parsed
+ * one at a time and the ones that fail are reported as skipped.
+ *
+ * @param content Raw .ics content.
+ * @param diagnostics Diagnostics that receive the repairs and skipped components.
+ * @returns The calendar component.
+ * @throws When the content holds no calendar at all.
+ */
+async function parseCalendarRoot(content: string, diagnostics: ParseDiagnostics): Promise<ICAL.Component> {
+  const { content: repaired, repairs } = repairICalContent(content);
+  if (repairs.length > 0) {
+    diagnostics.repairs = repairs;
+    logDebug("parse_ical_repaired", { repairs });
+  }
+
+  let parseError: unknown;
+  try {
+    const jcalData = ICAL.parse(repaired);
+    // Concatenated calendars are returned as a list of components
+    if (!Array.isArray(jcalData[0])) {
+      return new ICAL.Component(jcalData);
+    }
+  } catch (error) {
+    parseError = error;
+    logDebug("parse_ical_strict_error", { error: String(error) });
+  }
+
+  const blocks = splitComponentBlocks(repaired);
+  if (blocks.length === 0) {
+    throw parseError ?? new Error("No calendar components found");
+  }
+
+  // Parse each component on its own, so one bad component does not sink the feed
+  const root = new ICAL.Component("vcalendar");
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    try {
+      const jcalData = ICAL.parse(block.content);
+      root.addSubcomponent(new ICAL.Component(jcalData));
+    } catch (error) {
+      if (block.name === "VEVENT" || block.name === "VTODO") {
+        recordParseIssue(diagnostics, buildInvalidComponentIssue(block.name, block.content, String(error)), true);
+      } else {
+        logDebug("parse_component_error", { component: block.name, error: String(error) });
+      }
+    }
+
+    // Yield periodically to prevent UI freezing
+    if ((i + 1) % PARSE_YIELD_BATCH_SIZE === 0) {
+      await yieldToMain();
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Builds an invalid-component issue from the raw text of a component that could not be parsed
+ * (UID and title are read with regular expressions).
+ */
+function buildInvalidComponentIssue(
+  component: ParseIssue["component"],
+  content: string,
+  message: string
+): ParseIssue {
+  const uid = content.match(/^UID(?:;[^:\r\n]*)?:(.*)$/im)?.[1].trim();
+  const summary = content.match(/^SUMMARY(?:;[^:\r\n]*)?:(.*)$/im)?.[1].trim();
+  return {
+    component,
+    reason: "invalid-component",
+    ...(uid ? { uid } : {}),
+    ...(summary ? { summary } : {}),
+    message,
+  };
+}
+
+/**
+ * Records a parse issue in the diagnostics and logs it.
  */
-function icalTimeToDate(icalTime: ICAL.Time | null): Date | null {
-  if (!icalTime) return null;
-  try {
-    return icalTime.toJSDate();
-  } catch {
-    return null;
-  }
+function recordParseIssue(diagnostics: ParseDiagnostics, issue: ParseIssue, skipped: boolean): void {
+  (skipped ? diagnostics.skipped : diagnostics.warnings).push(issue);
+  logDebug(skipped ? "parse_component_skipped" : "parse_component_warning", { ...issue });
 }
 
 /**
  * Parses raw iCal (.ics) content into events using ical.js.
+ * Recurring events are expanded into one event per occurrence when a date range is given;
+ * otherwise only their first occurrence (DTSTART) is returned.
  * Yields to main thread periodically to prevent UI freezing with large calendars.
  *
  * @param content Raw .ics file content.
  * @param calendarName Name to use for the calendar.
+ * @param options Optional parsing options (e.g. recurrence expansion range).
+ */
+export async function parseICalContent(
+  content: string,
+  calendarName: string,
+  options: ParseOptions = {}
+): Promise<ICalEvent[]> {
+  const { events } = await parseICalComponents(content, calendarName, options);
+  return events;
+}
+
+/**
+ * Parses raw iCal (.ics) content into events (VEVENT) and tasks (VTODO).
+ * jCal and xCal content is converted to iCalendar first.
+ * See parseICalContent for how events are expanded.
+ *
+ * @param content Raw .ics file content (or jCal/xCal data).
+ * @param calendarName Name to use for the calendar.
+ * @param options Optional parsing options (e.g. recurrence expansion range).
+ * @param format Format of the content (detected from the content when omitted).
  */
-export async function parseICalContent(content: string, calendarName: string): Promise<ICalEvent[]> {
+export async function parseICalComponents(
+  content: string,
+  calendarName: string,
+  options: ParseOptions = {},
+  format: CalendarFormat = detectCalendarFormat(content)
+): Promise<ParsedCalendar> {
   const events: ICalEvent[] = [];
+  const todos: ICalTodo[] = [];
+  const diagnostics = createParseDiagnostics();
 
   try {
     // Yield before heavy parsing operation
     await yieldToMain();
 
-    const jcalData = ICAL.parse(content);
-    const comp = new ICAL.Component(jcalData);
+    if (format !== "ical") {
+      logDebug("parse_ical_convert", { calendarName, format });
+    }
+    const comp = await parseCalendarRoot(toICalendarText(content, format), diagnostics);
 
     // Yield after parsing jcal data
     await yieldToMain();
@@ -355,72 +1298,104 @@ export async function parseICalContent(content: string, calendarName: string): P
     // Get calendar name from X-WR-CALNAME if not provided
     const calName = calendarName || comp.getFirstPropertyValue("x-wr-calname") || "Calendar";
 
+    const definedTzids = getDefinedTzids(comp);
+
     const vevents = comp.getAllSubcomponents("vevent");
 
-    for (let i = 0; i < vevents.length; i++) {
-      const vevent = vevents[i];
+    // RECURRENCE-ID overrides are grouped by UID and related to their master explicitly.
+    // Otherwise ical.js relates every override in the file to every master, regardless of UID.
+    const masters: ICAL.Component[] = [];
+    const exceptionsByUid = new Map<string, ICAL.Event[]>();
+    for (const vevent of vevents) {
+      const skipReason = getEventSkipReason(vevent);
+      if (skipReason) {
+        recordParseIssue(diagnostics, buildParseIssue(vevent, skipReason), true);
+        continue;
+      }
+      if (hasUnknownTzid(vevent, definedTzids)) {
+        recordParseIssue(diagnostics, buildParseIssue(vevent, "unknown-tzid"), false);
+      }
+
+      if (!vevent.hasProperty("recurrence-id")) {
+        masters.push(vevent);
+        continue;
+      }
+      try {
+        const exception = new ICAL.Event(vevent, { exceptions: [] });
+        const list = exceptionsByUid.get(exception.uid) ?? [];
+        list.push(exception);
+        exceptionsByUid.set(exception.uid, list);
+      } catch (eventError) {
+        recordParseIssue(diagnostics, buildParseIssue(vevent, "invalid-component", String(eventError)), true);
+      }
+    }
+
+    // Instance ids already produced, so overrides are never emitted twice
+    const emittedIds = new Set<string>();
+
+    for (let i = 0; i < masters.length; i++) {
+      const vevent = masters[i];
 
       try {
-        const event = new ICAL.Event(vevent);
-
-        const location = event.location || "";
-        const url = String(vevent.getFirstPropertyValue("url") || "");
-        const description = event.description || "";
-
-        // Extract attendees
-        const attendees: { name: string; email: string }[] = [];
-        if (event.attendees && event.attendees.length > 0) {
-          for (const att of event.attendees) {
-            // att has multiple properties, jCal is one way to access them.
-            // But usually ical.js exposes common properties on the wrapper.
-            // Let's use getParameter for CN as it is the standard way.
-
-            // The 'att' object in the loop over event.attendees is typically an ICAL.Property if event.attendees is populated via strict mode or similar,
-            // but ical.js's high-level Event class usually returns plain objects or wrappers?
-            // Checking ical.js documentation or source is tricky without internet, but typically:
-            // event.attendees returns an array of ICAL.Property objects.
-
-            const emailRaw = att.jCal ? att.jCal[3] : ""; // Fallback to raw jCal value if available
-            // Correct way to get parameter in ical.js Property:
-            const cn = (att.getParameter ? att.getParameter("cn") : "") as string;
-
-            // If jCal is not direct, try to get the value
-            const emailValue = typeof att.getValues === "function" ? att.getValues()[0] : emailRaw;
-
-            // Skip if no useful info
-            if (!emailValue && !cn) continue;
-
-            attendees.push({
-              name: cn,
-              // Clean up mailto: prefix if present
-              email: String(emailValue).replace(/^mailto:/i, ""),
-            });
-          }
+        const uid = String(vevent.getFirstPropertyValue("uid") || "");
+        const event = new ICAL.Event(vevent, {
+          strictExceptions: true,
+          exceptions: exceptionsByUid.get(uid) ?? [],
+        });
+
+        const expansion =
+          options.range && event.isRecurring()
+            ? await expandRecurringEvent(event, options.range, options)
+            : { occurrences: [buildICalEvent(event, options)], truncated: false };
+        const instances = expansion.occurrences;
+        if (expansion.truncated) {
+          recordParseIssue(diagnostics, buildParseIssue(vevent, "recurrence-limit"), false);
+        }
+
+        // The DTSTART value exists but could not be converted to a date
+        if (instances.length > 0 && instances.every((instance) => !instance.dtstart)) {
+          recordParseIssue(diagnostics, buildParseIssue(vevent, "invalid-dtstart"), true);
+          continue;
         }
 
-        // Try to find meeting URL in location, description, or explicit URL property
-        const meetingUrl =
-          extractMeetingUrl(location) ||
-          extractMeetingUrl(description) ||
-          extractMeetingUrl(url);
-
-        const icalEvent: ICalEvent = {
-          uid: event.uid || "",
-          summary: event.summary || "",
-          description: description,
-          dtstart: icalTimeToDate(event.startDate),
-          dtend: icalTimeToDate(event.endDate),
-          location: location,
-          url: url,
-          meetingUrl: meetingUrl,
-          attendees,
-        };
-
-        if (icalEvent.uid) {
-          events.push(icalEvent);
+        for (const instance of instances) {
+          emittedIds.add(getEventInstanceId(instance.uid, instance.recurrenceId));
+          events.push(instance);
         }
       } catch (eventError) {
-        logDebug("parse_event_error", { error: String(eventError) });
+        recordParseIssue(diagnostics, buildParseIssue(vevent, "invalid-component", String(eventError)), true);
+      } finally {
+        // Yield periodically to prevent UI freezing
+        if ((i + 1) % PARSE_YIELD_BATCH_SIZE === 0) {
+          await yieldToMain();
+        }
+      }
+    }
+
+    // Overrides that did not replace a generated occurrence are kept as standalone instances
+    for (const exceptions of exceptionsByUid.values()) {
+      for (const exception of exceptions) {
+        const exceptionEvent = buildExceptionEvent(exception, options);
+        const instanceId = getEventInstanceId(exceptionEvent.uid, exceptionEvent.recurrenceId);
+        if (emittedIds.has(instanceId)) continue;
+        if (options.range && !isEventInDateRange(exceptionEvent, options.range)) continue;
+
+        emittedIds.add(instanceId);
+        events.push(exceptionEvent);
+      }
+    }
+
+    const vtodos = comp.getAllSubcomponents("vtodo");
+    for (let i = 0; i < vtodos.length; i++) {
+      try {
+        const todo = buildICalTodo(vtodos[i], options.timeZone);
+        if (todo.uid) {
+          todos.push(todo);
+        } else {
+          recordParseIssue(diagnostics, buildParseIssue(vtodos[i], "missing-uid"), true);
+        }
+      } catch (todoError) {
+        recordParseIssue(diagnostics, buildParseIssue(vtodos[i], "invalid-component", String(todoError)), true);
       }
 
       // Yield periodically to prevent UI freezing
@@ -432,23 +1407,34 @@ export async function parseICalContent(content: string, calendarName: string): P
     logDebug("parse_ical_content", {
       calendarName: calName,
       eventsFound: events.length,
+      todosFound: todos.length,
+      skipped: diagnostics.skipped.length,
+      warnings: diagnostics.warnings.length,
     });
   } catch (error) {
+    diagnostics.fatalError = error instanceof Error ? error.message : String(error);
     logError("Failed to parse iCal content", error);
   }
 
-  return events;
+  return { events, todos, diagnostics };
 }
 
 /**
- * Builds the proxied URL using Roam's native CORS proxy.
- * Format: {proxyUrl}/{targetUrl}
- * @see https://roamresearch.com/#/app/developer-documentation/page/TuLoib22N
- * @param targetUrl The target URL to proxy
+ * Gets the URLs to fetch for a calendar URL, in order of preference.
+ * webcal:// subscription links are fetched over https, falling back to http
+ * unless the calendar has credentials (they must never be sent in cleartext);
+ * webcals:// links are https only. Other URLs are fetched as-is.
+ *
+ * @param url Calendar URL as written in the settings.
+ * @param hasAuth Whether credentials are sent with the request.
  */
-function buildProxiedUrl(targetUrl: string): string {
-  const proxyUrl = getRoamProxyUrl();
-  return `${proxyUrl}/${targetUrl}`;
+export function resolveFetchUrls(url: string, hasAuth = false): string[] {
+  const match = url.match(/^(webcals?):\/\/(.*)$/i);
+  if (!match) return [url];
+
+  const [, scheme, rest] = match;
+  const httpsUrl = `https://${rest}`;
+  return scheme.toLowerCase() === "webcals" || hasAuth ? [httpsUrl] : [httpsUrl, `http://${rest}`];
 }
 
 /**
@@ -456,27 +1442,39 @@ function buildProxiedUrl(targetUrl: string): string {
  */
 export interface IncrementalFetchResult {
   content: string;
+  /** Content-Type header of the response (used to detect jCal/xCal feeds) */
+  contentType?: string;
   changed: boolean;
   cached: boolean;
   etag?: string;
   lastModified?: string;
+  /** Errors of attempts that were retried before the download succeeded */
+  fetchErrors: FetchAttemptError[];
+  /** Calendar objects of a CalDAV source, parsed one at a time (content is then empty) */
+  resources?: string[];
 }
 
 /**
- * Fetches content through Roam's native CORS proxy with incremental sync support.
+ * Fetches content through the configured transport (Roam proxy, custom proxy or direct)
+ * with incremental sync support.
  * Uses ETag/Last-Modified headers and content hashing to detect changes.
  * Yields to main thread before and after fetch to prevent UI freezing.
  *
  * @param url Original URL to fetch.
  * @param forceRefresh If true, ignores cache and fetches fresh content.
+ * @param auth Optional credentials of the calendar server.
  */
-async function fetchWithCorsProxy(url: string, forceRefresh = false): Promise<IncrementalFetchResult> {
-  const proxyUrl = buildProxiedUrl(url);
+async function fetchCalendarContent(
+  url: string,
+  forceRefresh = false,
+  auth?: CalendarAuth
+): Promise<IncrementalFetchResult> {
+  const fetchUrls = resolveFetchUrls(url, !!auth);
   const cacheEntry = calendarCache.get(url);
 
   logDebug("fetch_with_proxy", {
     originalUrl: url,
-    proxyUrl,
+    fetchUrls,
     hasCacheEntry: !!cacheEntry,
     forceRefresh,
   });
@@ -495,7 +1493,29 @@ async function fetchWithCorsProxy(url: string, forceRefresh = false): Promise<In
     }
   }
 
-  const response = await fetch(proxyUrl, { headers });
+  // Try each URL in turn (webcal:// falls back from https to http), retrying transient errors
+  const fetchErrors: FetchAttemptError[] = [];
+  let response: Response | undefined;
+  let text = "";
+  for (let i = 0; i < fetchUrls.length; i++) {
+    const isLast = i === fetchUrls.length - 1;
+    try {
+      const result = await fetchWithTransport(fetchUrls[i], { headers }, { auth });
+      fetchErrors.push(...result.errors);
+      response = result.response;
+      text = result.body;
+      logDebug("fetch_transport_used", { url: fetchUrls[i], transport: result.transport });
+      break;
+    } catch (error) {
+      if (!(error instanceof FetchError)) throw error;
+      fetchErrors.push(...error.errors);
+      if (isLast) throw new FetchError(fetchErrors);
+      logDebug("fetch_fallback", { url: fetchUrls[i], status: error.status, error: error.message });
+    }
+  }
+  if (!response) {
+    throw new Error(`No response for ${url}`);
+  }
 
   // Yield after fetch completes
   await yieldToMain();
@@ -514,6 +1534,7 @@ async function fetchWithCorsProxy(url: string, forceRefresh = false): Promise<In
       cached: true,
       etag: cacheEntry.etag,
       lastModified: cacheEntry.lastModified,
+      fetchErrors,
     };
   }
 
@@ -521,12 +1542,8 @@ async function fetchWithCorsProxy(url: string, forceRefresh = false): Promise<In
     throw new Error(`HTTP ${response.status}: ${response.statusText}`);
   }
 
-  const text = await response.text();
-
-  // Yield after reading response body
-  await yieldToMain();
-
   // Extract caching headers
+  const contentType = response.headers.get("Content-Type") ?? undefined;
   const etag = response.headers.get("ETag") ?? undefined;
   const lastModified = response.headers.get("Last-Modified") ?? undefined;
   const contentHash = hashContent(text);
@@ -555,10 +1572,12 @@ async function fetchWithCorsProxy(url: string, forceRefresh = false): Promise<In
 
   return {
     content: text,
+    contentType,
     changed: contentChanged,
     cached: false,
     etag,
     lastModified,
+    fetchErrors,
   };
 }
 
@@ -570,71 +1589,247 @@ export interface ICalCalendarResult extends ICalCalendar {
   changed: boolean;
   /** Whether the result came from cache (304 Not Modified) */
   cached: boolean;
+  /** Problems found while parsing the calendar (from the last parse when cached) */
+  diagnostics: ParseDiagnostics;
+  /** Transient errors that were retried before the download succeeded */
+  fetchErrors: FetchAttemptError[];
+}
+
+/**
+ * A calendar that could not be downloaded.
+ */
+export interface CalendarFetchFailure {
+  name: string;
+  url: string;
+  /** Whether the last error was transient (retries exhausted) or permanent */
+  kind: FetchErrorKind;
+  /** HTTP status of the last error, missing for network errors */
+  status?: number;
+  message: string;
+  /** Number of requests sent */
+  attempts: number;
+  /** Every failed attempt, in order */
+  errors: FetchAttemptError[];
+}
+
+/**
+ * Parsed events stored for a calendar URL.
+ * The parse key records the options the events were produced with.
+ */
+interface EventsCacheEntry {
+  events: ICalEvent[];
+  todos: ICalTodo[];
+  diagnostics: ParseDiagnostics;
+  parseKey: string;
 }
 
 /**
  * Stored events cache for calendars that haven't changed.
  * Used to return previous events when content hasn't changed.
  */
-const eventsCache = new Map<string, ICalEvent[]>();
+const eventsCache = new Map<string, EventsCacheEntry>();
 
 /**
- * Fetches and parses an iCal feed from a URL.
- * Uses Roam's native CORS proxy (roamAlphaAPI.constants.corsAnywhereProxyUrl).
- * Supports incremental sync by detecting unchanged content.
- * Yields to main thread to prevent UI freezing.
- *
- * @param config Calendar configuration with name and URL.
- * @param forceRefresh If true, ignores cache and fetches fresh content.
+ * Builds a key identifying the parse options, so cached events expanded
+ * for a previous sync window (or with other meeting patterns) are not reused.
  */
-export async function fetchICalCalendar(
+function buildParseKey(options: ParseOptions): string {
+  const zoneKey = options.timeZone ?? "";
+  const patternsKey = (options.meetingUrlPatterns ?? [])
+    .map(({ name, pattern }) => `${name}:${pattern.source}`)
+    .join("|");
+  if (!options.range) return `${zoneKey}-${patternsKey}`;
+  const { start, end } = getDateRangeBounds(options.range);
+  return `${start.getTime()}-${end.getTime()}-${zoneKey}-${patternsKey}`;
+}
+
+/**
+ * A downloaded calendar, waiting to be parsed.
+ */
+interface CalendarDownload {
+  config: CalendarConfig;
+  fetchResult: IncrementalFetchResult;
+  cachedEntry?: EventsCacheEntry;
+  parseKey: string;
+  /** Cached events were expanded for another window and can't be reused */
+  staleExpansion: boolean;
+}
+
+/**
+ * Downloads a calendar (network only, no parsing).
+ */
+async function downloadCalendar(
   config: CalendarConfig,
-  forceRefresh = false
-): Promise<ICalCalendarResult> {
-  logDebug("fetch_ical_start", { name: config.name, url: config.url, forceRefresh });
+  forceRefresh: boolean,
+  options: ParseOptions
+): Promise<CalendarDownload> {
+  logDebug("fetch_ical_start", {
+    name: config.name,
+    url: config.url,
+    auth: describeAuth(config.auth),
+    forceRefresh,
+  });
 
-  try {
-    const fetchResult = await fetchWithCorsProxy(config.url, forceRefresh);
-
-    // If content hasn't changed, return cached events
-    if (!fetchResult.changed) {
-      const cachedEvents = eventsCache.get(config.url) ?? [];
-      logDebug("fetch_ical_cached", {
-        name: config.name,
-        eventsCount: cachedEvents.length,
-        cached: fetchResult.cached,
-      });
+  const parseKey = buildParseKey(options);
+  const cachedEntry = eventsCache.get(config.url);
 
-      return {
-        name: config.name,
-        url: config.url,
-        events: cachedEvents,
-        changed: false,
-        cached: fetchResult.cached,
-      };
-    }
+  // Cached events expanded for another window can't be reused: fetch the full body again
+  const staleExpansion = !!cachedEntry && cachedEntry.parseKey !== parseKey;
 
-    // Yield before parsing
-    await yieldToMain();
+  const fetchResult =
+    config.source === "caldav"
+      ? await fetchCalDavContent(config, forceRefresh || staleExpansion || !cachedEntry, options)
+      : await fetchCalendarContent(config.url, forceRefresh || staleExpansion, config.auth);
+  return { config, fetchResult, cachedEntry, parseKey, staleExpansion };
+}
+
+/**
+ * Fetches the events of a CalDAV source for the sync window.
+ * Unchanged collections (same sync token or ctag) report no change, like a 304 of a feed.
+ */
+async function fetchCalDavContent(
+  config: CalendarConfig,
+  forceRefresh: boolean,
+  options: ParseOptions
+): Promise<IncrementalFetchResult> {
+  const result = await fetchCalDavCalendar(config.url, {
+    auth: config.auth,
+    timeRange: options.range ? getDateRangeBounds(options.range) : undefined,
+    forceRefresh,
+  });
+
+  return {
+    content: "",
+    resources: result.resources,
+    changed: result.changed,
+    cached: !result.changed,
+    fetchErrors: [],
+  };
+}
+
+/**
+ * Parses the calendar objects of a CalDAV source and merges them.
+ * An unreadable object is reported as a skipped component instead of failing the calendar.
+ */
+async function parseCalendarResources(
+  resources: string[],
+  calendarName: string,
+  options: ParseOptions
+): Promise<ParsedCalendar> {
+  const merged: ParsedCalendar = { events: [], todos: [], diagnostics: createParseDiagnostics() };
+  const repairs = new Set<ICalRepair>();
+
+  for (let i = 0; i < resources.length; i++) {
+    const { events, todos, diagnostics } = await parseICalComponents(resources[i], calendarName, options, "ical");
+    merged.events.push(...events);
+    merged.todos.push(...todos);
+    merged.diagnostics.skipped.push(...diagnostics.skipped);
+    merged.diagnostics.warnings.push(...diagnostics.warnings);
+    diagnostics.repairs?.forEach((repair) => repairs.add(repair));
+    if (diagnostics.fatalError) {
+      recordParseIssue(
+        merged.diagnostics,
+        buildInvalidComponentIssue("VEVENT", resources[i], diagnostics.fatalError),
+        true
+      );
+    }
 
-    const events = await parseICalContent(fetchResult.content, config.name);
+    if ((i + 1) % PARSE_YIELD_BATCH_SIZE === 0) {
+      await yieldToMain();
+    }
+  }
 
-    // Cache the parsed events
-    eventsCache.set(config.url, events);
+  if (repairs.size > 0) {
+    merged.diagnostics.repairs = Array.from(repairs);
+  }
+  return merged;
+}
 
-    logDebug("fetch_ical_complete", {
+/**
+ * Parses a downloaded calendar, or returns its cached events when the content hasn't changed.
+ * Yields to main thread to prevent UI freezing.
+ */
+async function parseCalendarDownload(download: CalendarDownload, options: ParseOptions): Promise<ICalCalendarResult> {
+  const { config, fetchResult, cachedEntry, parseKey, staleExpansion } = download;
+
+  // If content hasn't changed, return cached events
+  if (!fetchResult.changed && !staleExpansion) {
+    const cachedEvents = cachedEntry?.events ?? [];
+    const cachedTodos = cachedEntry?.todos ?? [];
+    logDebug("fetch_ical_cached", {
       name: config.name,
-      eventsCount: events.length,
-      changed: true,
+      eventsCount: cachedEvents.length,
+      cached: fetchResult.cached,
     });
 
     return {
       name: config.name,
       url: config.url,
-      events,
-      changed: true,
-      cached: false,
+      events: cachedEvents,
+      todos: cachedTodos,
+      privateEvents: config.privateEvents,
+      changed: false,
+      cached: fetchResult.cached,
+      diagnostics: cachedEntry?.diagnostics ?? createParseDiagnostics(),
+      fetchErrors: fetchResult.fetchErrors,
     };
+  }
+
+  // Yield before parsing
+  await yieldToMain();
+
+  const { events, todos, diagnostics } = fetchResult.resources
+    ? await parseCalendarResources(fetchResult.resources, config.name, options)
+    : await parseICalComponents(
+        fetchResult.content,
+        config.name,
+        options,
+        detectCalendarFormat(fetchResult.content, fetchResult.contentType)
+      );
+
+  // Cache the parsed events and tasks
+  eventsCache.set(config.url, { events, todos, diagnostics, parseKey });
+
+  logDebug("fetch_ical_complete", {
+    name: config.name,
+    eventsCount: events.length,
+    todosCount: todos.length,
+    skippedCount: diagnostics.skipped.length,
+    changed: true,
+  });
+
+  return {
+    name: config.name,
+    url: config.url,
+    events,
+    todos,
+    privateEvents: config.privateEvents,
+    changed: true,
+    cached: false,
+    diagnostics,
+    fetchErrors: fetchResult.fetchErrors,
+  };
+}
+
+/**
+ * Fetches and parses an iCal feed from a URL.
+ * jCal and xCal feeds are detected from the Content-Type header or the body.
+ * Uses the configured transport, falling back to the others (see fetchWithTransport).
+ * Supports incremental sync by detecting unchanged content.
+ * Yields to main thread to prevent UI freezing.
+ *
+ * @param config Calendar configuration with name and URL.
+ * @param forceRefresh If true, ignores cache and fetches fresh content.
+ * @param options Optional parsing options (e.g. recurrence expansion range).
+ */
+export async function fetchICalCalendar(
+  config: CalendarConfig,
+  forceRefresh = false,
+  options: ParseOptions = {}
+): Promise<ICalCalendarResult> {
+  try {
+    const download = await downloadCalendar(config, forceRefresh, options);
+    return await parseCalendarDownload(download, options);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     logError(`Failed to fetch calendar "${config.name}"`, { url: config.url, error: message });
@@ -647,6 +1842,8 @@ export async function fetchICalCalendar(
  */
 export interface FetchAllResult {
   calendars: ICalCalendarResult[];
+  /** Calendars that could not be downloaded, in configuration order */
+  failures: CalendarFetchFailure[];
   stats: {
     total: number;
     changed: number;
@@ -656,37 +1853,109 @@ export interface FetchAllResult {
 }
 
 /**
- * Fetches multiple iCal calendars sequentially with yields between each.
- * Sequential processing prevents UI freezing when parsing multiple large calendars.
- * Uses Roam's native CORS proxy (roamAlphaAPI.constants.corsAnywhereProxyUrl).
+ * Describes why a calendar could not be downloaded.
+ * Errors other than FetchError (e.g. no transport available) are permanent.
+ */
+function buildFetchFailure(config: CalendarConfig, error: unknown): CalendarFetchFailure {
+  if (error instanceof FetchError) {
+    return {
+      name: config.name,
+      url: config.url,
+      kind: error.kind,
+      status: error.status,
+      message: error.message,
+      attempts: error.attempts,
+      errors: error.errors,
+    };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    name: config.name,
+    url: config.url,
+    kind: "permanent",
+    message,
+    attempts: 1,
+    errors: [{ url: config.url, kind: "permanent", message }],
+  };
+}
+
+/**
+ * Runs an async task for every item, with at most `limit` tasks running at the same time.
+ *
+ * @returns Results in the order of the items (not in completion order).
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Fetches multiple iCal calendars.
+ * Downloads run concurrently (at most `concurrency` at a time), since most of the time is spent
+ * waiting on the network. Parsing then runs one calendar after another, in configuration order,
+ * with yields between calendars to prevent UI freezing.
+ * Uses the configured transport, falling back to the others (see fetchWithTransport).
  * Supports incremental sync by tracking which calendars have changed.
  *
  * @param configs Array of calendar configurations.
  * @param forceRefresh If true, ignores cache and fetches fresh content for all calendars.
+ * @param options Optional parsing options applied to every calendar.
+ * @param concurrency Maximum number of simultaneous downloads.
  */
 export async function fetchAllCalendars(
   configs: CalendarConfig[],
-  forceRefresh = false
+  forceRefresh = false,
+  options: ParseOptions = {},
+  concurrency = DEFAULT_FETCH_CONCURRENCY
 ): Promise<FetchAllResult> {
   if (configs.length === 0) {
     return {
       calendars: [],
+      failures: [],
       stats: { total: 0, changed: 0, cached: 0, failed: 0 },
     };
   }
 
+  const downloads = await mapWithConcurrency(configs, concurrency, (config) =>
+    downloadCalendar(config, forceRefresh, options).then(
+      (download) => ({ download }),
+      (error: unknown) => ({ error })
+    )
+  );
+
   const calendars: ICalCalendarResult[] = [];
+  const failures: CalendarFetchFailure[] = [];
   let changed = 0;
   let cached = 0;
   let failed = 0;
 
-  // Process calendars sequentially to prevent UI blocking
-  // Each calendar fetch/parse already yields internally
+  // Parse sequentially, in configuration order, to prevent UI blocking
+  // Each parse already yields internally
   for (let i = 0; i < configs.length; i++) {
     const config = configs[i];
+    const result = downloads[i];
 
     try {
-      const calendar = await fetchICalCalendar(config, forceRefresh);
+      if ("error" in result) {
+        throw result.error;
+      }
+      const calendar = await parseCalendarDownload(result.download, options);
       calendars.push(calendar);
 
       if (calendar.changed) {
@@ -700,6 +1969,7 @@ export async function fetchAllCalendars(
       await yieldToMain();
     } catch (error) {
       logError(`Calendar fetch failed: ${config.name}`, error);
+      failures.push(buildFetchFailure(config, error));
       failed++;
       // Continue with next calendar on error
     }
@@ -712,9 +1982,9 @@ export async function fetchAllCalendars(
     failed,
   };
 
-  logDebug("fetch_all_complete", stats);
+  logDebug("fetch_all_complete", { ...stats, concurrency });
 
-  return { calendars, stats };
+  return { calendars, failures, stats };
 }
 
 /**
@@ -789,13 +2059,26 @@ function getEventSortDate(event: ICalEvent): Date | null {
 }
 
 /**
- * Sorts events by date, most recent first.
+ * Gets a sortable key (YYYYMMDD) for the calendar day of a date.
+ */
+function getDayKey(date: Date, timeZone?: string): number {
+  if (timeZone) {
+    const { year, month, day } = getZonedDateParts(date, timeZone);
+    return year * 10000 + month * 100 + day;
+  }
+  return date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+}
+
+/**
+ * Sorts events by day, most recent day first.
+ * Events on the same day are ordered by time (all-day events first, then earliest start).
  * Events without dates are placed at the end.
  *
  * @param events Array of iCal events to sort.
+ * @param timeZone Optional IANA timezone that defines calendar days (defaults to local time).
  * @returns New sorted array (does not mutate input).
  */
-export function sortEventsByDateDescending(events: ICalEvent[]): ICalEvent[] {
+export function sortEventsByDateDescending(events: ICalEvent[], timeZone?: string): ICalEvent[] {
   return [...events].sort((a, b) => {
     const dateA = getEventSortDate(a);
     const dateB = getEventSortDate(b);
@@ -805,8 +2088,13 @@ export function sortEventsByDateDescending(events: ICalEvent[]): ICalEvent[] {
     if (!dateA) return 1;
     if (!dateB) return -1;
 
-    // Most recent first (descending order)
-    return dateB.getTime() - dateA.getTime();
+    // Most recent day first (descending order)
+    const dayDiff = getDayKey(dateB, timeZone) - getDayKey(dateA, timeZone);
+    if (dayDiff !== 0) return dayDiff;
+
+    // Same day: all-day events first, then chronological
+    if (!!a.allDay !== !!b.allDay) return a.allDay ? -1 : 1;
+    return dateA.getTime() - dateB.getTime();
   });
 }
 
@@ -857,12 +2145,108 @@ export async function filterExcludedEvents(
   return filtered;
 }
 
+/**
+ * Title written for private events redacted with the "busy" policy.
+ */
+export const BUSY_TITLE = "Busy";
+
+/**
+ * Checks if an event or task is marked private (CLASS:PRIVATE or CLASS:CONFIDENTIAL).
+ */
+export function isPrivateItem(item: { classification?: EventClassification }): boolean {
+  return item.classification === "PRIVATE" || item.classification === "CONFIDENTIAL";
+}
+
+/**
+ * Applies the private events policy of a calendar to an event.
+ * Redacted events keep their identity and timing (so they stay in sync),
+ * but lose every detail that could leak into the graph.
+ *
+ * @param event iCal event.
+ * @param policy Redaction policy of the calendar (defaults to "show").
+ * @returns The event (redacted copy if private), or undefined if it must be skipped.
+ */
+export function redactPrivateEvent(event: ICalEvent, policy: PrivateEventsPolicy = "show"): ICalEvent | undefined {
+  if (policy === "show" || !isPrivateItem(event)) return event;
+  if (policy === "skip") return undefined;
+
+  return {
+    uid: event.uid,
+    summary: policy === "busy" ? BUSY_TITLE : event.summary,
+    description: "",
+    dtstart: event.dtstart,
+    dtend: event.dtend,
+    location: "",
+    url: "",
+    attendees: [],
+    recurrenceId: event.recurrenceId,
+    allDay: event.allDay,
+    status: event.status,
+    transparency: event.transparency,
+    classification: event.classification,
+  };
+}
+
+/**
+ * Applies the private events policy of a calendar to a task.
+ *
+ * @param todo iCal task.
+ * @param policy Redaction policy of the calendar (defaults to "show").
+ * @returns The task (redacted copy if private), or undefined if it must be skipped.
+ */
+export function redactPrivateTodo(todo: ICalTodo, policy: PrivateEventsPolicy = "show"): ICalTodo | undefined {
+  if (policy === "show" || !isPrivateItem(todo)) return todo;
+  if (policy === "skip") return undefined;
+
+  return {
+    uid: todo.uid,
+    summary: policy === "busy" ? BUSY_TITLE : todo.summary,
+    description: "",
+    due: todo.due,
+    allDay: todo.allDay,
+    completed: todo.completed,
+    status: todo.status,
+    url: "",
+    classification: todo.classification,
+  };
+}
+
 /**
  * Configuration for date range filtering.
  */
 export interface DateRangeConfig {
   daysPast: number;
   daysFuture: number;
+  /** IANA timezone that defines where days start (defaults to local time) */
+  timeZone?: string;
+}
+
+/**
+ * Computes the boundaries of a date range relative to today.
+ * The start is inclusive, the end is exclusive and covers the full last day.
+ *
+ * @param config Date range configuration.
+ * @returns Start and end boundaries of the range.
+ */
+export function getDateRangeBounds(config: DateRangeConfig): { start: Date; end: Date } {
+  const now = new Date();
+
+  if (config.timeZone) {
+    return {
+      start: startOfDayInZone(now, config.timeZone, -config.daysPast),
+      end: startOfDayInZone(now, config.timeZone, config.daysFuture + 1), // +1 to include the full day
+    };
+  }
+
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  const start = new Date(startOfToday);
+  start.setDate(start.getDate() - config.daysPast);
+
+  const end = new Date(startOfToday);
+  end.setDate(end.getDate() + config.daysFuture + 1); // +1 to include the full day
+
+  return { start, end };
 }
 
 /**
@@ -880,17 +2264,8 @@ export function isEventInDateRange(event: ICalEvent, config: DateRangeConfig): b
     return false;
   }
 
-  const now = new Date();
-  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
-  // Calculate date boundaries
-  const pastBoundary = new Date(startOfToday);
-  pastBoundary.setDate(pastBoundary.getDate() - config.daysPast);
-
-  const futureBoundary = new Date(startOfToday);
-  futureBoundary.setDate(futureBoundary.getDate() + config.daysFuture + 1); // +1 to include the full day
-
-  return eventDate >= pastBoundary && eventDate < futureBoundary;
+  const { start, end } = getDateRangeBounds(config);
+  return eventDate >= start && eventDate < end;
 }
 
 /**
@@ -932,3 +2307,97 @@ export async function filterEventsByDateRange(
 
   return filtered;
 }
+
+/**
+ * Checks if a task belongs in the sync window.
+ * Open tasks are always kept; completed or cancelled tasks only while their
+ * completion (or due) date is inside the date range.
+ *
+ * @param todo iCal task to check.
+ * @param config Date range configuration.
+ * @returns True if the task should be synced.
+ */
+export function isTodoInDateRange(todo: ICalTodo, config: DateRangeConfig): boolean {
+  if (todo.status !== "COMPLETED" && todo.status !== "CANCELLED" && !todo.completed) {
+    return true;
+  }
+
+  const closedDate = todo.completed ?? todo.due;
+  if (!closedDate) {
+    return true;
+  }
+
+  const { start, end } = getDateRangeBounds(config);
+  return closedDate >= start && closedDate < end;
+}
+
+/**
+ * Configuration for filtering events by the user's own participation.
+ */
+export interface ParticipationFilterConfig {
+  /** The user's email addresses (compared case-insensitively) */
+  myEmails: string[];
+  /** Only keep events where the user is an attendee or the organizer */
+  onlyMine: boolean;
+}
+
+/**
+ * Checks if an event should be kept based on the user's participation.
+ * Events the user declined are dropped; accepted, tentative and unanswered ones are kept.
+ *
+ * @param event iCal event to check.
+ * @param config Participation filter configuration.
+ * @returns True if the event should be kept.
+ */
+export function shouldKeepEventForParticipant(event: ICalEvent, config: ParticipationFilterConfig): boolean {
+  if (config.myEmails.length === 0) return true;
+
+  const myEmails = new Set(config.myEmails.map((email) => email.toLowerCase()));
+  const isMine = (participant: ICalAttendee | undefined) =>
+    participant !== undefined && myEmails.has(participant.email.toLowerCase());
+
+  const myAttendance = event.attendees.filter(isMine);
+  if (myAttendance.some((attendee) => attendee.partstat === "DECLINED")) {
+    return false;
+  }
+
+  if (config.onlyMine) {
+    return myAttendance.length > 0 || isMine(event.organizer);
+  }
+
+  return true;
+}
+
+/**
+ * Filters events by the user's participation (see shouldKeepEventForParticipant).
+ * Yields to main thread periodically to prevent UI freezing.
+ *
+ * @param events Array of iCal events to filter.
+ * @param config Participation filter configuration.
+ * @returns New filtered array (does not mutate input).
+ */
+export async function filterEventsByParticipation(
+  events: ICalEvent[],
+  config: ParticipationFilterConfig
+): Promise<ICalEvent[]> {
+  if (config.myEmails.length === 0) return events;
+
+  const filtered: ICalEvent[] = [];
+
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+
+    if (shouldKeepEventForParticipant(event, config)) {
+      filtered.push(event);
+    } else {
+      logDebug("event_filtered_by_participation", { title: event.summary, uid: event.uid });
+    }
+
+    // Yield periodically to prevent UI freezing
+    if ((i + 1) % PARSE_YIELD_BATCH_SIZE === 0) {
+      await yieldToMain();
+    }
+  }
+
+  return filtered;
+}
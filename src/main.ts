@@ -1,11 +1,15 @@
 import "./polyfills";
 
-import { writeBlocks } from "./blocks";
+import { writeBlocks, type BatchConfig } from "./blocks";
 import {
   fetchAllCalendars,
+  parseICalComponents,
   filterEventsByDateRange,
+  filterEventsByParticipation,
+  isTodoInDateRange,
   clearCalendarCache,
   type ICalCalendar,
+  type CalendarFetchFailure,
   type ICalCalendarResult,
 } from "./ical";
 import {
@@ -15,8 +19,10 @@ import {
   type SettingsSnapshot,
 } from "./settings";
 import { cancelScheduledSync, scheduleAutoSync } from "./scheduler";
-import { registerCommand, registerTopbarButton } from "./ui";
-import { logError, logInfo, logDebug, setDebugEnabled } from "./logger";
+import { pickCalendarFile, promptCalendarName, registerCommand, registerTopbarButton } from "./ui";
+import { IMPORT_COMMAND_LABEL } from "./constants";
+import { logError, logInfo, logWarn, logDebug, setDebugEnabled } from "./logger";
+import { setTransportSettings } from "./http";
 
 /**
  * Extension API interface provided by Roam Research.
@@ -61,6 +67,7 @@ let extensionAPIRef: ExtensionAPI | null = null;
 let lastIntervalMs: number | null = null;
 let lastCalendarCount: number | undefined;
 let unregisterCommand: (() => Promise<void>) | null = null;
+let unregisterImportCommand: (() => Promise<void>) | null = null;
 let removeTopbarButton: (() => void) | null = null;
 let initialized = false;
 
@@ -82,6 +89,7 @@ async function onload(args: OnloadArgs): Promise<void> {
     refreshSettings();
 
     unregisterCommand = await registerCommand(extensionAPI, () => syncCalendars("manual"));
+    unregisterImportCommand = await registerCommand(extensionAPI, importCalendarFile, IMPORT_COMMAND_LABEL);
     removeTopbarButton = registerTopbarButton(() => syncCalendars("manual"));
 
     initialized = true;
@@ -104,6 +112,10 @@ function onunload(): void {
     void unregisterCommand();
     unregisterCommand = null;
   }
+  if (unregisterImportCommand) {
+    void unregisterImportCommand();
+    unregisterImportCommand = null;
+  }
   settingsHandle?.dispose();
   settingsHandle = null;
   extensionAPIRef = null;
@@ -129,6 +141,7 @@ function refreshSettings(): SettingsSnapshot {
   }
   const snapshot = readSettings(extensionAPIRef, settingsHandle);
   setDebugEnabled(snapshot.enableDebugLogs);
+  setTransportSettings({ transport: snapshot.fetchTransport, proxyUrlTemplate: snapshot.proxyUrlTemplate });
   maybeRescheduleAutoSync(snapshot);
   return snapshot;
 }
@@ -189,10 +202,27 @@ async function syncCalendars(trigger: "manual" | "auto" | "force") {
       calendars: settings.calendars.map(c => c.name),
       syncDaysPast: settings.syncDaysPast,
       syncDaysFuture: settings.syncDaysFuture,
+      displayTimeZone: settings.displayTimeZone,
       forceRefresh,
     });
 
-    const fetchResult = await fetchAllCalendars(settings.calendars, forceRefresh);
+    const dateRangeConfig = {
+      daysPast: settings.syncDaysPast,
+      daysFuture: settings.syncDaysFuture,
+      timeZone: settings.displayTimeZone,
+    };
+
+    // Recurring events are expanded into occurrences inside the sync window
+    const fetchResult = await fetchAllCalendars(
+      settings.calendars,
+      forceRefresh,
+      {
+        range: dateRangeConfig,
+        timeZone: settings.displayTimeZone,
+        meetingUrlPatterns: settings.meetingUrlPatterns,
+      },
+      settings.fetchConcurrency
+    );
     const rawCalendars: ICalCalendarResult[] = fetchResult.calendars;
     const totalRawEvents = rawCalendars.reduce((sum, cal) => sum + cal.events.length, 0);
 
@@ -205,58 +235,66 @@ async function syncCalendars(trigger: "manual" | "auto" | "force") {
       return;
     }
 
-    // Filter events by date range (async to yield during filtering)
-    const dateRangeConfig = {
-      daysPast: settings.syncDaysPast,
-      daysFuture: settings.syncDaysFuture,
-    };
+    // Filter events by date range and by the user's participation (async to yield during filtering)
+    const participationConfig = { myEmails: settings.myEmails, onlyMine: settings.onlyMyEvents };
     const calendars: ICalCalendar[] = [];
     for (const cal of rawCalendars) {
-      const filteredEvents = await filterEventsByDateRange(cal.events, dateRangeConfig);
+      const eventsInRange = await filterEventsByDateRange(cal.events, dateRangeConfig);
+      const filteredEvents = await filterEventsByParticipation(eventsInRange, participationConfig);
       calendars.push({
         ...cal,
         events: filteredEvents,
+        todos: cal.todos.filter((todo) => isTodoInDateRange(todo, dateRangeConfig)),
       });
     }
 
     const totalEvents = calendars.reduce((sum, cal) => sum + cal.events.length, 0);
+    const totalTodos = settings.tasksPage ? calendars.reduce((sum, cal) => sum + cal.todos.length, 0) : 0;
 
     logDebug("sync_fetched", {
       calendarsLoaded: calendars.length,
       totalRawEvents,
-      totalEventsAfterDateFilter: totalEvents,
+      totalEventsAfterFilters: totalEvents,
       filteredOut: totalRawEvents - totalEvents,
+      totalTodos,
       stats: fetchResult.stats,
     });
 
+    const fetchFailureSummary = summarizeFetchFailures(fetchResult.failures);
+
     if (calendars.length === 0) {
       if (trigger === "manual" || trigger === "force") {
-        showStatusMessage("No calendars could be loaded. Check your URLs.", "warning");
+        const details = fetchFailureSummary ? ` (${fetchFailureSummary})` : "";
+        showStatusMessage(`No calendars could be loaded. Check your URLs.${details}`, "warning");
       }
       return;
     }
 
-    await writeBlocks(
-      settings.pagePrefix,
-      calendars,
-      {
-        batchSize: settings.batchSize,
-        batchDelayMs: settings.batchDelayMs,
-        excludePatterns: settings.excludePatterns,
-        titlePrefix: settings.titlePrefix,
-        attendeeAliases: settings.attendeeAliases,
-      }
-    );
+    await writeBlocks(settings.pagePrefix, calendars, buildBatchConfig(settings));
 
     // Build status message with incremental sync info
     const statusParts: string[] = [];
-    statusParts.push(`${totalEvents} event(s) from ${calendars.length} calendar(s)`);
+    statusParts.push(`${totalEvents} event(s)`);
+    if (totalTodos > 0) {
+      statusParts.push(`and ${totalTodos} task(s)`);
+    }
+    statusParts.push(`from ${calendars.length} calendar(s)`);
     if (fetchResult.stats.cached > 0) {
       statusParts.push(`(${fetchResult.stats.cached} cached)`);
     }
 
+    const diagnosticsSummary = summarizeParseDiagnostics(rawCalendars);
+    if (diagnosticsSummary) {
+      statusParts.push(`— ${diagnosticsSummary}`);
+    }
+    if (fetchFailureSummary) {
+      statusParts.push(`— ${fetchFailureSummary}`);
+    }
+
     if (trigger === "manual" || trigger === "force") {
-      showStatusMessage(`Synced ${statusParts.join(" ")}`, "success");
+      const hasFatalErrors =
+        rawCalendars.some((cal) => cal.diagnostics.fatalError) || fetchResult.failures.length > 0;
+      showStatusMessage(`Synced ${statusParts.join(" ")}`, hasFatalErrors ? "warning" : "success");
     } else {
       logInfo(`Automatic sync completed: ${statusParts.join(" ")}`);
     }
@@ -269,6 +307,149 @@ async function syncCalendars(trigger: "manual" | "auto" | "force") {
   }
 }
 
+/**
+ * Builds the block writing configuration from the settings.
+ */
+function buildBatchConfig(settings: SettingsSnapshot): BatchConfig {
+  return {
+    batchSize: settings.batchSize,
+    batchDelayMs: settings.batchDelayMs,
+    excludePatterns: settings.excludePatterns,
+    titlePrefix: settings.titlePrefix,
+    attendeeAliases: settings.attendeeAliases,
+    categoryAliases: settings.categoryAliases,
+    timeZone: settings.displayTimeZone,
+    timeFormat: settings.timeFormat,
+    cancelledEvents: settings.cancelledEvents,
+    tasksPage: settings.tasksPage,
+  };
+}
+
+/**
+ * Imports the events and tasks of a local calendar file (one-shot, not synced afterwards).
+ * They are written under the chosen calendar name and marked as imported,
+ * so the cleanup of later syncs keeps them.
+ */
+async function importCalendarFile() {
+  if (syncInProgress) {
+    showStatusMessage("Sync is already in progress.", "warning");
+    return;
+  }
+
+  const file = await pickCalendarFile();
+  if (!file) return;
+
+  const calendarName = promptCalendarName(file.name.replace(/\.[^.]+$/, ""));
+  if (!calendarName) return;
+
+  const settings = refreshSettings();
+  syncInProgress = true;
+  showStatusMessage(`Importing ${file.name}...`, "info");
+
+  try {
+    const content = await file.text();
+
+    // Recurring events are expanded inside the sync window, like synced calendars
+    const dateRangeConfig = {
+      daysPast: settings.syncDaysPast,
+      daysFuture: settings.syncDaysFuture,
+      timeZone: settings.displayTimeZone,
+    };
+    const { events, todos: parsedTodos } = await parseICalComponents(content, calendarName, {
+      range: dateRangeConfig,
+      timeZone: settings.displayTimeZone,
+      meetingUrlPatterns: settings.meetingUrlPatterns,
+    });
+    const todosInRange = parsedTodos.filter((todo) => isTodoInDateRange(todo, dateRangeConfig));
+    // Without a Tasks Page, tasks are not written (like in a sync), but the user is told
+    const todos = settings.tasksPage ? todosInRange : [];
+    const skippedTodos = todosInRange.length - todos.length;
+
+    logDebug("import_parsed", {
+      fileName: file.name,
+      calendarName,
+      eventsCount: events.length,
+      todosCount: todos.length,
+      skippedTodos,
+    });
+
+    const skippedNote =
+      skippedTodos > 0 ? ` — ${skippedTodos} task(s) skipped: set a Tasks Page to import tasks` : "";
+
+    if (events.length === 0 && todos.length === 0) {
+      showStatusMessage(`No events found in ${file.name}${skippedNote || "."}`, "warning");
+      return;
+    }
+
+    await writeBlocks(settings.pagePrefix, [{ name: calendarName, url: file.name, events, todos }], {
+      ...buildBatchConfig(settings),
+      imported: true,
+    });
+
+    const importedParts = [`${events.length} event(s)`];
+    if (todos.length > 0) {
+      importedParts.push(`and ${todos.length} task(s)`);
+    }
+    showStatusMessage(
+      `Imported ${importedParts.join(" ")} from ${file.name} into "${calendarName}"${skippedNote}`,
+      skippedTodos > 0 ? "warning" : "success"
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError("Failed to import calendar file", error);
+    showStatusMessage(`Failed to import ${file.name}: ${message}`, "error");
+  } finally {
+    syncInProgress = false;
+  }
+}
+
+/**
+ * Summarizes parse problems of all calendars for the status message
+ * (e.g. "3 item(s) skipped, could not read: Work").
+ *
+ * @returns The summary, or undefined when every calendar parsed cleanly.
+ */
+function summarizeParseDiagnostics(calendars: ICalCalendarResult[]): string | undefined {
+  const skipped = calendars.reduce((sum, cal) => sum + cal.diagnostics.skipped.length, 0);
+  const unreadable = calendars.filter((cal) => cal.diagnostics.fatalError).map((cal) => cal.name);
+
+  for (const cal of calendars) {
+    const { skipped: skippedIssues, warnings, fatalError } = cal.diagnostics;
+    if (skippedIssues.length > 0 || warnings.length > 0 || fatalError) {
+      logWarn(`Parse diagnostics for "${cal.name}"`, { skipped: skippedIssues, warnings, fatalError });
+    }
+  }
+
+  const parts: string[] = [];
+  if (skipped > 0) {
+    parts.push(`${skipped} item(s) skipped`);
+  }
+  if (unreadable.length > 0) {
+    parts.push(`could not read: ${unreadable.join(", ")}`);
+  }
+  return parts.length > 0 ? parts.join(", ") : undefined;
+}
+
+/**
+ * Summarizes download failures for the status message
+ * (e.g. "could not fetch: Work (HTTP 404), Team (HTTP 503, 4 attempts)").
+ *
+ * @returns The summary, or undefined when every calendar was downloaded.
+ */
+function summarizeFetchFailures(failures: CalendarFetchFailure[]): string | undefined {
+  if (failures.length === 0) return undefined;
+
+  const details = failures.map((failure) => {
+    const reason = failure.status
+      ? `HTTP ${failure.status}`
+      : failure.kind === "retryable"
+        ? "network error"
+        : failure.message;
+    return failure.attempts > 1 ? `${failure.name} (${reason}, ${failure.attempts} attempts)` : `${failure.name} (${reason})`;
+  });
+  return `could not fetch: ${details.join(", ")}`;
+}
+
 function showStatusMessage(message: string, type: "info" | "warning" | "success" | "error") {
   const roamUI = (window as unknown as {
     roamAlphaAPI?: {
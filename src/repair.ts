@@ -0,0 +1,234 @@
+/**
+ * Fixes applied to malformed iCal content before it is parsed again:
+ * - bom: byte order mark removed
+ * - line-endings: bare LF or CR line endings converted to CRLF
+ * - line-folding: continuation lines without leading whitespace unfolded
+ * - parameter-quoting: parameter values with unescaped commas or colons quoted
+ * - concatenated-calendars: several VCALENDARs merged into one
+ */
+export type ICalRepair =
+  | "bom"
+  | "line-endings"
+  | "line-folding"
+  | "parameter-quoting"
+  | "concatenated-calendars";
+
+/**
+ * Result of the repair pass.
+ */
+export interface RepairResult {
+  content: string;
+  /** Fixes that changed the content, in the order they were applied */
+  repairs: ICalRepair[];
+}
+
+/**
+ * A top-level component (VEVENT, VTODO, VTIMEZONE, ...) cut out of a calendar.
+ */
+export interface ComponentBlock {
+  /** Upper-case component name (e.g. "VEVENT") */
+  name: string;
+  /** Lines from BEGIN to END, joined with CRLF */
+  content: string;
+}
+
+/**
+ * Property names defined by RFC 5545 and its extensions (RFC 7986, 9073, 9074),
+ * recognized in any case. Other upper-case names and X- properties are recognized too.
+ */
+const KNOWN_PROPERTIES = new Set([
+  "ACKNOWLEDGED", "ACTION", "ATTACH", "ATTENDEE", "BEGIN", "CALSCALE", "CATEGORIES", "CLASS",
+  "COLOR", "COMMENT", "COMPLETED", "CONFERENCE", "CONTACT", "CREATED", "DESCRIPTION", "DTEND",
+  "DTSTAMP", "DTSTART", "DUE", "DURATION", "END", "EXDATE", "EXRULE", "FREEBUSY", "GEO", "IMAGE",
+  "LAST-MODIFIED", "LOCATION", "LOCATION-TYPE", "METHOD", "NAME", "ORGANIZER", "PERCENT-COMPLETE",
+  "PRIORITY", "PRODID", "RDATE", "RECURRENCE-ID", "REFRESH-INTERVAL", "RELATED-TO", "REPEAT",
+  "REQUEST-STATUS", "RESOURCES", "RRULE", "SEQUENCE", "SOURCE", "STATUS", "STRUCTURED-DATA",
+  "STYLED-DESCRIPTION", "SUMMARY", "TRANSP", "TRIGGER", "TZID", "TZNAME", "TZOFFSETFROM",
+  "TZOFFSETTO", "TZURL", "UID", "URL", "VERSION",
+]);
+
+/**
+ * Calendar-level properties, dropped from the second and later calendars when merging.
+ */
+const CALENDAR_PROPERTY_PATTERN = /^(?:VERSION|PRODID|CALSCALE|METHOD|NAME|X-WR-[A-Z-]+)[;:]/i;
+
+/**
+ * Checks if a line starts a content line (property name followed by ";" or ":").
+ * Lines that don't are continuation lines whose leading whitespace was lost;
+ * mixed-case words followed by a colon (e.g. "Agenda:") are text, not property names.
+ */
+function isContentLine(line: string): boolean {
+  if (/^[A-Z][A-Z0-9-]*[;:]/.test(line)) return true;
+  const match = line.match(/^([A-Za-z0-9-]+)[;:]/);
+  if (!match) return false;
+  const name = match[1].toUpperCase();
+  return KNOWN_PROPERTIES.has(name) || name.startsWith("X-");
+}
+
+/**
+ * Quotes parameter values that contain unescaped commas or colons
+ * (e.g. ORGANIZER;CN=Support: Team, EMEA:mailto:support@example.com).
+ * The value of a property starts at the first colon not followed by whitespace.
+ *
+ * @returns The fixed line, or the line itself when nothing needed quoting.
+ */
+function quoteParameterValues(line: string): string {
+  const nameMatch = line.match(/^[A-Za-z0-9-]+/);
+  if (!nameMatch || line[nameMatch[0].length] !== ";") return line;
+
+  let result = nameMatch[0];
+  let index = nameMatch[0].length;
+  let changed = false;
+
+  while (line[index] === ";") {
+    const paramMatch = line.slice(index + 1).match(/^([A-Za-z0-9-]+)=/);
+    if (!paramMatch) return line;
+    index += 1 + paramMatch[0].length;
+
+    let value: string;
+    if (line[index] === '"') {
+      const closing = line.indexOf('"', index + 1);
+      if (closing === -1) return line;
+      value = line.slice(index, closing + 1);
+      index = closing + 1;
+    } else {
+      let end = index;
+      while (end < line.length) {
+        const char = line[end];
+        if (char === ";" && /^;[A-Za-z0-9-]+=/.test(line.slice(end))) break;
+        if (char === ":" && !/\s/.test(line[end + 1] ?? "")) break;
+        end++;
+      }
+      value = line.slice(index, end);
+      index = end;
+      if (/[,:]/.test(value) && !value.includes('"')) {
+        value = `"${value}"`;
+        changed = true;
+      }
+    }
+
+    result += `;${paramMatch[0]}${value}`;
+  }
+
+  // Without a value the line was not understood: leave it to the parser
+  if (line[index] !== ":") return line;
+  return changed ? result + line.slice(index) : line;
+}
+
+/**
+ * Repairs common defects of real-world feeds (older Exchange servers, booking tools)
+ * that make ical.js reject the whole calendar or misread properties.
+ * Valid content keeps its meaning: it is only unfolded and given CRLF line endings.
+ *
+ * @param content Raw .ics content.
+ * @returns Repaired content and the fixes that were applied.
+ */
+export function repairICalContent(content: string): RepairResult {
+  const repairs: ICalRepair[] = [];
+  let text = content;
+
+  if (text.charCodeAt(0) === 0xfeff) {
+    text = text.slice(1);
+    repairs.push("bom");
+  }
+
+  if (/\r(?!\n)|(?:^|[^\r])\n/.test(text)) {
+    repairs.push("line-endings");
+  }
+  const rawLines = text.split(/\r\n|\r|\n/);
+
+  // Unfold, joining broken continuation lines (no leading whitespace) to the line before.
+  // Only empty lines are dropped: a whitespace-only line continues a folded value.
+  const lines: string[] = [];
+  let brokenFolding = false;
+  for (const rawLine of rawLines) {
+    if (!rawLine || (lines.length === 0 && !rawLine.trim())) continue;
+    if (lines.length > 0 && (rawLine[0] === " " || rawLine[0] === "\t")) {
+      lines[lines.length - 1] += rawLine.slice(1);
+    } else if (lines.length > 0 && !isContentLine(rawLine)) {
+      lines[lines.length - 1] += rawLine;
+      brokenFolding = true;
+    } else {
+      lines.push(rawLine);
+    }
+  }
+  if (brokenFolding) repairs.push("line-folding");
+
+  // Quote parameter values and merge concatenated calendars
+  const output: string[] = [];
+  let quoted = false;
+  let calendars = 0;
+  let depth = 0;
+  for (const line of lines) {
+    const upper = line.trimEnd().toUpperCase();
+
+    if (upper === "BEGIN:VCALENDAR") {
+      calendars++;
+      depth++;
+      if (calendars === 1) output.push(line);
+      continue;
+    }
+    if (upper === "END:VCALENDAR") {
+      depth = Math.max(0, depth - 1);
+      continue;
+    }
+    if (calendars > 1 && depth === 1 && CALENDAR_PROPERTY_PATTERN.test(line)) {
+      continue;
+    }
+
+    if (upper.startsWith("BEGIN:")) depth++;
+    if (upper.startsWith("END:")) depth = Math.max(0, depth - 1);
+
+    const fixed = quoteParameterValues(line);
+    if (fixed !== line) quoted = true;
+    output.push(fixed);
+  }
+  if (calendars > 0) output.push("END:VCALENDAR");
+  if (quoted) repairs.push("parameter-quoting");
+  if (calendars > 1) repairs.push("concatenated-calendars");
+
+  return { content: output.join("\r\n"), repairs };
+}
+
+/**
+ * Cuts the top-level components out of (possibly concatenated) calendars,
+ * so they can be parsed one at a time.
+ *
+ * @param content Unfolded .ics content with CRLF line endings (see repairICalContent).
+ * @returns Components in order of appearance; unterminated components are dropped.
+ */
+export function splitComponentBlocks(content: string): ComponentBlock[] {
+  const blocks: ComponentBlock[] = [];
+  let current: { name: string; lines: string[]; depth: number } | undefined;
+
+  for (const line of content.split(/\r\n|\r|\n/)) {
+    const upper = line.trimEnd().toUpperCase();
+
+    if (!current) {
+      const begin = upper.match(/^BEGIN:(.+)$/);
+      if (begin && begin[1] !== "VCALENDAR") {
+        current = { name: begin[1].trim(), lines: [line], depth: 1 };
+      }
+      continue;
+    }
+
+    // A calendar that ends inside a component leaves it unterminated
+    if (upper === "END:VCALENDAR") {
+      current = undefined;
+      continue;
+    }
+
+    current.lines.push(line);
+    if (upper.startsWith("BEGIN:")) {
+      current.depth++;
+    } else if (upper.startsWith("END:")) {
+      current.depth--;
+      if (current.depth === 0) {
+        blocks.push({ name: current.name, content: current.lines.join("\r\n") });
+        current = undefined;
+      }
+    }
+  }
+
+  return blocks;
+}
@@ -6,14 +6,32 @@ import {
   DEFAULT_PAGE_PREFIX,
   DEFAULT_BATCH_SIZE,
   DEFAULT_BATCH_DELAY_MS,
+  DEFAULT_FETCH_CONCURRENCY,
+  DEFAULT_FETCH_TRANSPORT,
+  MAX_FETCH_CONCURRENCY,
   DEFAULT_EXCLUDE_PATTERNS,
   DEFAULT_SYNC_DAYS_PAST,
   DEFAULT_SYNC_DAYS_FUTURE,
   DEFAULT_TITLE_PREFIX,
+  DEFAULT_TIME_FORMAT,
+  DEFAULT_CANCELLED_EVENTS,
+  DEFAULT_TASKS_PAGE,
 } from "./constants";
 import { logWarn, logDebug } from "./logger";
 import type { ExtensionAPI } from "./main";
-import type { CalendarConfig } from "./ical";
+import {
+  resolveFetchUrls,
+  type CalendarConfig,
+  type CalendarSource,
+  type CancelledEventsMode,
+  type MeetingUrlPattern,
+  type PrivateEventsPolicy,
+  type TimeFormat,
+} from "./ical";
+import { getDefaultTimeZone, isValidTimeZone } from "./timezone";
+import { isSupportedContentType } from "./formats";
+import { FetchError, fetchWithTransport, type CalendarAuth, type FetchTransport } from "./http";
+import { discoverCalDavCollections } from "./caldav";
 
 /**
  * Validation result for a calendar URL.
@@ -27,41 +45,28 @@ export interface CalendarValidationResult {
 }
 
 /**
- * Validates if a string is a valid URL.
+ * Validates if a string is a valid calendar URL (http, https, or a webcal/webcals subscription link).
  */
 export function isValidUrl(urlString: string): boolean {
   try {
     const url = new URL(urlString);
-    return url.protocol === "http:" || url.protocol === "https:";
+    return ["http:", "https:", "webcal:", "webcals:"].includes(url.protocol) && !!url.hostname;
   } catch {
     return false;
   }
 }
 
-/**
- * Gets the Roam CORS proxy URL.
- */
-function getRoamProxyUrl(): string | undefined {
-  const roamAPI = (window as unknown as {
-    roamAlphaAPI?: {
-      constants?: {
-        corsAnywhereProxyUrl?: string;
-      };
-    };
-  }).roamAlphaAPI;
-
-  return roamAPI?.constants?.corsAnywhereProxyUrl;
-}
-
 /**
  * Validates a calendar URL by checking format and optionally testing connectivity.
  *
  * @param url URL to validate.
  * @param testConnection If true, attempts to fetch the URL to verify it's accessible.
+ * @param auth Optional credentials of the calendar server.
  */
 export async function validateCalendarUrl(
   url: string,
-  testConnection = false
+  testConnection = false,
+  auth?: CalendarAuth
 ): Promise<CalendarValidationResult> {
   // Basic URL format validation
   if (!url || url.trim() === "") {
@@ -96,46 +101,16 @@ export async function validateCalendarUrl(
     return { url: trimmedUrl, valid: true };
   }
 
-  // Test connectivity
+  // Test connectivity through the configured transport, without retries
   try {
-    const proxyUrl = getRoamProxyUrl();
-    if (!proxyUrl) {
-      return {
-        url: trimmedUrl,
-        valid: true,
-        error: "Cannot test connection: Roam proxy not available",
-      };
-    }
-
-    const fetchUrl = `${proxyUrl}/${trimmedUrl}`;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-    const response = await fetch(fetchUrl, {
-      method: "HEAD", // Use HEAD to avoid downloading full content
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
+    const { response } = await fetchWithTransport(
+      resolveFetchUrls(trimmedUrl)[0],
+      { method: "HEAD" }, // Use HEAD to avoid downloading full content
+      { maxRetries: 0, timeoutMs: 10000, auth }
+    );
 
     const contentType = response.headers.get("Content-Type") ?? undefined;
-    const isValidContentType =
-      !contentType ||
-      contentType.includes("text/calendar") ||
-      contentType.includes("text/plain") ||
-      contentType.includes("application/octet-stream");
-
-    if (!response.ok) {
-      return {
-        url: trimmedUrl,
-        valid: false,
-        error: `HTTP ${response.status}: ${response.statusText}`,
-        status: response.status,
-        contentType,
-      };
-    }
-
-    if (!isValidContentType) {
+    if (!isSupportedContentType(contentType)) {
       return {
         url: trimmedUrl,
         valid: false,
@@ -152,16 +127,39 @@ export async function validateCalendarUrl(
       status: response.status,
     };
   } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    if (message.includes("abort")) {
-      return { url: trimmedUrl, valid: false, error: "Connection timeout (10s)" };
+    if (error instanceof FetchError && error.status) {
+      return { url: trimmedUrl, valid: false, error: error.message, status: error.status };
     }
+    const message = error instanceof Error ? error.message : String(error);
     return { url: trimmedUrl, valid: false, error: `Connection failed: ${message}` };
   }
 }
 
+/**
+ * Validates a CalDAV source by discovering its calendars.
+ */
+async function validateCalDavSource(calendar: CalendarConfig): Promise<CalendarValidationResult> {
+  const formatResult = await validateCalendarUrl(calendar.url, false);
+  if (!formatResult.valid) return formatResult;
+
+  try {
+    const collections = await discoverCalDavCollections(formatResult.url, calendar.auth);
+    if (collections.length === 0) {
+      return { url: formatResult.url, valid: false, error: "No calendars found on the CalDAV server" };
+    }
+    return { url: formatResult.url, valid: true };
+  } catch (error) {
+    if (error instanceof FetchError && error.status) {
+      return { url: formatResult.url, valid: false, error: error.message, status: error.status };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { url: formatResult.url, valid: false, error: `Connection failed: ${message}` };
+  }
+}
+
 /**
  * Validates all calendar configurations.
+ * CalDAV sources are checked by discovering their calendars.
  */
 export async function validateAllCalendars(
   calendars: CalendarConfig[],
@@ -170,7 +168,10 @@ export async function validateAllCalendars(
   const results = new Map<string, CalendarValidationResult>();
 
   for (const calendar of calendars) {
-    const result = await validateCalendarUrl(calendar.url, testConnection);
+    const result =
+      calendar.source === "caldav" && testConnection
+        ? await validateCalDavSource(calendar)
+        : await validateCalendarUrl(calendar.url, testConnection, calendar.auth);
     results.set(calendar.url, result);
   }
 
@@ -439,11 +440,22 @@ export type SettingsSnapshot = {
   enableDebugLogs: boolean;
   batchSize: number;
   batchDelayMs: number;
+  fetchConcurrency: number;
+  fetchTransport: FetchTransport;
+  proxyUrlTemplate: string;
   excludePatterns: RegExp[];
   attendeeAliases: Map<string, string>;
+  categoryAliases: Map<string, string>;
   syncDaysPast: number;
   syncDaysFuture: number;
   titlePrefix: string;
+  displayTimeZone: string;
+  timeFormat: TimeFormat;
+  cancelledEvents: CancelledEventsMode;
+  myEmails: string[];
+  onlyMyEvents: boolean;
+  tasksPage: string;
+  meetingUrlPatterns: MeetingUrlPattern[];
 };
 
 export type SettingsHandle =
@@ -461,28 +473,52 @@ const SETTINGS_KEYS = {
   pagePrefix: "page_prefix",
   intervalMinutes: "sync_interval_minutes",
   calendars: "calendars",
+  calendarCredentials: "calendar_credentials",
   enableDebugLogs: "enable_debug_logs",
   batchSize: "batch_size",
   batchDelayMs: "batch_delay_ms",
+  fetchConcurrency: "fetch_concurrency",
+  fetchTransport: "fetch_transport",
+  proxyUrlTemplate: "proxy_url_template",
   excludePatterns: "exclude_title_patterns",
   attendeeAliases: "attendee_aliases",
+  categoryAliases: "category_aliases",
   syncDaysPast: "sync_days_past",
   syncDaysFuture: "sync_days_future",
   titlePrefix: "title_prefix",
+  displayTimeZone: "display_timezone",
+  timeFormat: "time_format",
+  cancelledEvents: "cancelled_events",
+  myEmails: "my_emails",
+  onlyMyEvents: "only_my_events",
+  tasksPage: "tasks_page",
+  meetingUrlPatterns: "meeting_url_patterns",
 } as const;
 
 const DEFAULT_SETTINGS: Record<string, unknown> = {
   [SETTINGS_KEYS.pagePrefix]: DEFAULT_PAGE_PREFIX,
   [SETTINGS_KEYS.intervalMinutes]: 30,
   [SETTINGS_KEYS.calendars]: "",
+  [SETTINGS_KEYS.calendarCredentials]: "",
   [SETTINGS_KEYS.enableDebugLogs]: false,
   [SETTINGS_KEYS.batchSize]: DEFAULT_BATCH_SIZE,
   [SETTINGS_KEYS.batchDelayMs]: DEFAULT_BATCH_DELAY_MS,
+  [SETTINGS_KEYS.fetchConcurrency]: DEFAULT_FETCH_CONCURRENCY,
+  [SETTINGS_KEYS.fetchTransport]: DEFAULT_FETCH_TRANSPORT,
+  [SETTINGS_KEYS.proxyUrlTemplate]: "",
   [SETTINGS_KEYS.excludePatterns]: DEFAULT_EXCLUDE_PATTERNS,
   [SETTINGS_KEYS.attendeeAliases]: "",
+  [SETTINGS_KEYS.categoryAliases]: "",
   [SETTINGS_KEYS.syncDaysPast]: DEFAULT_SYNC_DAYS_PAST,
   [SETTINGS_KEYS.syncDaysFuture]: DEFAULT_SYNC_DAYS_FUTURE,
   [SETTINGS_KEYS.titlePrefix]: DEFAULT_TITLE_PREFIX,
+  [SETTINGS_KEYS.displayTimeZone]: "",
+  [SETTINGS_KEYS.timeFormat]: DEFAULT_TIME_FORMAT,
+  [SETTINGS_KEYS.cancelledEvents]: DEFAULT_CANCELLED_EVENTS,
+  [SETTINGS_KEYS.myEmails]: "",
+  [SETTINGS_KEYS.onlyMyEvents]: false,
+  [SETTINGS_KEYS.tasksPage]: DEFAULT_TASKS_PAGE,
+  [SETTINGS_KEYS.meetingUrlPatterns]: "",
 };
 
 const SETTINGS_TEMPLATE: InputTextNode[] = [
@@ -492,11 +528,22 @@ const SETTINGS_TEMPLATE: InputTextNode[] = [
   { text: "Enable Debug Logs" },
   { text: "Batch Size", children: [{ text: String(DEFAULT_BATCH_SIZE) }] },
   { text: "Batch Delay (ms)", children: [{ text: String(DEFAULT_BATCH_DELAY_MS) }] },
+  { text: "Fetch Concurrency", children: [{ text: String(DEFAULT_FETCH_CONCURRENCY) }] },
+  { text: "Fetch Transport (roam-proxy, custom-proxy or direct)", children: [{ text: DEFAULT_FETCH_TRANSPORT }] },
+  { text: "Proxy URL Template", children: [{ text: "" }] },
   { text: "Exclude Title Patterns (regex, one per line)", children: [{ text: DEFAULT_EXCLUDE_PATTERNS }] },
   { text: "Attendee Aliases (CN;Page, one per line)", children: [{ text: "" }] },
+  { text: "Category Aliases (Category;Page, one per line)", children: [{ text: "" }] },
   { text: "Sync Days Past", children: [{ text: String(DEFAULT_SYNC_DAYS_PAST) }] },
   { text: "Sync Days Future", children: [{ text: String(DEFAULT_SYNC_DAYS_FUTURE) }] },
   { text: "Title Prefix", children: [{ text: DEFAULT_TITLE_PREFIX }] },
+  { text: "Display Timezone", children: [{ text: "" }] },
+  { text: "Time Format (12h or 24h)", children: [{ text: DEFAULT_TIME_FORMAT }] },
+  { text: "Cancelled Events (skip, strikethrough or tag)", children: [{ text: DEFAULT_CANCELLED_EVENTS }] },
+  { text: "My Email Addresses (one per line)", children: [{ text: "" }] },
+  { text: "Only My Events (true or false)", children: [{ text: "false" }] },
+  { text: "Tasks Page", children: [{ text: DEFAULT_TASKS_PAGE }] },
+  { text: "Meeting URL Patterns (name|regex, one per line)", children: [{ text: "" }] },
 ];
 
 export async function initializeSettings(
@@ -533,7 +580,10 @@ function readSettingsFromPanel(
     1
   );
   const calendarsRaw = getString(allSettings, SETTINGS_KEYS.calendars) ?? "";
-  const calendars = parseCalendarsConfigLegacy(calendarsRaw);
+  const calendars = applyCalendarCredentials(
+    parseCalendarsConfigLegacy(calendarsRaw),
+    parseCalendarCredentials(getString(allSettings, SETTINGS_KEYS.calendarCredentials) ?? "").credentials
+  );
   const enableDebugLogs = getBoolean(
     allSettings,
     SETTINGS_KEYS.enableDebugLogs,
@@ -547,10 +597,19 @@ function readSettingsFromPanel(
     getNumber(allSettings, SETTINGS_KEYS.batchDelayMs, DEFAULT_BATCH_DELAY_MS),
     0
   );
+  const fetchConcurrency = Math.min(
+    Math.max(getNumber(allSettings, SETTINGS_KEYS.fetchConcurrency, DEFAULT_FETCH_CONCURRENCY), 1),
+    MAX_FETCH_CONCURRENCY
+  );
+  const fetchTransport = parseFetchTransport(
+    getString(allSettings, SETTINGS_KEYS.fetchTransport) ?? DEFAULT_FETCH_TRANSPORT
+  );
+  const proxyUrlTemplate = (getString(allSettings, SETTINGS_KEYS.proxyUrlTemplate) ?? "").trim();
   const excludePatternsRaw = getString(allSettings, SETTINGS_KEYS.excludePatterns) ?? DEFAULT_EXCLUDE_PATTERNS;
   const excludePatterns = parseExcludePatterns(excludePatternsRaw);
   const attendeeAliasesRaw = getString(allSettings, SETTINGS_KEYS.attendeeAliases) ?? "";
-  const attendeeAliases = parseAttendeeAliases(attendeeAliasesRaw);
+  const attendeeAliases = parseAliases(attendeeAliasesRaw);
+  const categoryAliases = parseAliases(getString(allSettings, SETTINGS_KEYS.categoryAliases) ?? "");
   const syncDaysPast = Math.max(
     getNumber(allSettings, SETTINGS_KEYS.syncDaysPast, DEFAULT_SYNC_DAYS_PAST),
     0
@@ -560,6 +619,17 @@ function readSettingsFromPanel(
     0
   );
   const titlePrefix = getString(allSettings, SETTINGS_KEYS.titlePrefix) ?? DEFAULT_TITLE_PREFIX;
+  const displayTimeZone = resolveDisplayTimeZone(getString(allSettings, SETTINGS_KEYS.displayTimeZone) ?? "");
+  const timeFormat = parseTimeFormat(getString(allSettings, SETTINGS_KEYS.timeFormat) ?? DEFAULT_TIME_FORMAT);
+  const cancelledEvents = parseCancelledEventsMode(
+    getString(allSettings, SETTINGS_KEYS.cancelledEvents) ?? DEFAULT_CANCELLED_EVENTS
+  );
+  const myEmails = parseEmailList(getString(allSettings, SETTINGS_KEYS.myEmails) ?? "");
+  const onlyMyEvents = getBoolean(allSettings, SETTINGS_KEYS.onlyMyEvents, false);
+  const tasksPage = parseTasksPage(getString(allSettings, SETTINGS_KEYS.tasksPage) ?? DEFAULT_TASKS_PAGE);
+  const meetingUrlPatterns = parseMeetingUrlPatterns(
+    getString(allSettings, SETTINGS_KEYS.meetingUrlPatterns) ?? ""
+  ).patterns;
 
   return {
     pagePrefix,
@@ -568,11 +638,22 @@ function readSettingsFromPanel(
     enableDebugLogs,
     batchSize,
     batchDelayMs,
+    fetchConcurrency,
+    fetchTransport,
+    proxyUrlTemplate,
     excludePatterns,
     attendeeAliases,
+    categoryAliases,
     syncDaysPast,
     syncDaysFuture,
     titlePrefix,
+    displayTimeZone,
+    timeFormat,
+    cancelledEvents,
+    myEmails,
+    onlyMyEvents,
+    tasksPage,
+    meetingUrlPatterns,
   };
 }
 
@@ -602,6 +683,7 @@ function readSettingsFromPage(pageUid: string): SettingsSnapshot {
     defaultValue: [],
   }).join("\n");
   const calendars = parseCalendarsConfigLegacy(calendarsRaw);
+  warnAboutCredentialsOnPage(tree);
 
   const enableDebugLogs = hasFlag(tree, "Enable Debug Logs");
 
@@ -623,6 +705,32 @@ function readSettingsFromPage(pageUid: string): SettingsSnapshot {
     0
   );
 
+  const fetchConcurrency = Math.min(
+    Math.max(
+      getSettingIntFromTree({
+        tree,
+        key: "Fetch Concurrency",
+        defaultValue: DEFAULT_FETCH_CONCURRENCY,
+      }),
+      1
+    ),
+    MAX_FETCH_CONCURRENCY
+  );
+
+  const fetchTransport = parseFetchTransport(
+    getSettingValueFromTree({
+      tree,
+      key: "Fetch Transport",
+      defaultValue: DEFAULT_FETCH_TRANSPORT,
+    })
+  );
+
+  const proxyUrlTemplate = getSettingValueFromTree({
+    tree,
+    key: "Proxy URL Template",
+    defaultValue: "",
+  }).trim();
+
   const excludePatternsRaw = getSettingValuesFromTree({
     tree,
     key: "Exclude Title Patterns",
@@ -635,7 +743,14 @@ function readSettingsFromPage(pageUid: string): SettingsSnapshot {
     key: "Attendee Aliases",
     defaultValue: [],
   }).join("\n");
-  const attendeeAliases = parseAttendeeAliases(attendeeAliasesRaw);
+  const attendeeAliases = parseAliases(attendeeAliasesRaw);
+
+  const categoryAliasesRaw = getSettingValuesFromTree({
+    tree,
+    key: "Category Aliases",
+    defaultValue: [],
+  }).join("\n");
+  const categoryAliases = parseAliases(categoryAliasesRaw);
 
   const syncDaysPast = Math.max(
     getSettingIntFromTree({
@@ -661,6 +776,62 @@ function readSettingsFromPage(pageUid: string): SettingsSnapshot {
     defaultValue: DEFAULT_TITLE_PREFIX,
   });
 
+  const displayTimeZone = resolveDisplayTimeZone(
+    getSettingValueFromTree({
+      tree,
+      key: "Display Timezone",
+      defaultValue: "",
+    })
+  );
+
+  const timeFormat = parseTimeFormat(
+    getSettingValueFromTree({
+      tree,
+      key: "Time Format",
+      defaultValue: DEFAULT_TIME_FORMAT,
+    })
+  );
+
+  const cancelledEvents = parseCancelledEventsMode(
+    getSettingValueFromTree({
+      tree,
+      key: "Cancelled Events",
+      defaultValue: DEFAULT_CANCELLED_EVENTS,
+    })
+  );
+
+  const myEmails = parseEmailList(
+    getSettingValuesFromTree({
+      tree,
+      key: "My Email Addresses",
+      defaultValue: [],
+    }).join("\n")
+  );
+
+  const onlyMyEvents =
+    getSettingValueFromTree({
+      tree,
+      key: "Only My Events",
+      defaultValue: "false",
+    })
+      .trim()
+      .toLowerCase() === "true";
+
+  const tasksPage = parseTasksPage(
+    getSettingValueFromTree({
+      tree,
+      key: "Tasks Page",
+      defaultValue: DEFAULT_TASKS_PAGE,
+    })
+  );
+
+  const meetingUrlPatternsRaw = getSettingValuesFromTree({
+    tree,
+    key: "Meeting URL Patterns",
+    defaultValue: [],
+  }).join("\n");
+  const meetingUrlPatterns = parseMeetingUrlPatterns(meetingUrlPatternsRaw).patterns;
+
   return {
     pagePrefix,
     intervalMs,
@@ -668,11 +839,22 @@ function readSettingsFromPage(pageUid: string): SettingsSnapshot {
     enableDebugLogs,
     batchSize,
     batchDelayMs,
+    fetchConcurrency,
+    fetchTransport,
+    proxyUrlTemplate,
     excludePatterns,
     attendeeAliases,
+    categoryAliases,
     syncDaysPast,
     syncDaysFuture,
     titlePrefix,
+    displayTimeZone,
+    timeFormat,
+    cancelledEvents,
+    myEmails,
+    onlyMyEvents,
+    tasksPage,
+    meetingUrlPatterns,
   };
 }
 
@@ -713,10 +895,152 @@ function parseExcludePatterns(raw: string): RegExp[] {
 }
 
 /**
- * Parses attendee aliases from a multi-line string.
- * Format: "Name;Page" (e.g. "Thiago Avelino;@avelino")
+ * Result from parsing custom meeting URL patterns.
+ */
+export interface ParseMeetingUrlPatternsResult {
+  patterns: MeetingUrlPattern[];
+  errors: { line: string; error: string }[];
+}
+
+/**
+ * Parses custom meeting URL patterns from a multi-line string.
+ * Format: Name|regex (one per line). Lines starting with # or // are comments.
+ * Like exclude patterns, matching is case-insensitive and inline flags such as (?i) are stripped.
+ * Returns both valid patterns and parsing errors.
+ */
+export function parseMeetingUrlPatterns(raw: string): ParseMeetingUrlPatternsResult {
+  if (!raw) return { patterns: [], errors: [] };
+
+  const patterns: MeetingUrlPattern[] = [];
+  const errors: { line: string; error: string }[] = [];
+  const lines = raw.split(/\r?\n/);
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    // Skip comment lines
+    if (trimmed.startsWith("#") || trimmed.startsWith("//")) {
+      continue;
+    }
+
+    const pipeIndex = trimmed.indexOf("|");
+    if (pipeIndex === -1) {
+      errors.push({ line: trimmed, error: "Missing name (format: Name|regex)" });
+      continue;
+    }
+
+    const name = trimmed.slice(0, pipeIndex).trim();
+    // Remove inline flags that are not supported in JavaScript
+    const source = trimmed.slice(pipeIndex + 1).trim().replace(/\(\?[imsuxyUJ]+\)/g, "");
+
+    if (!name) {
+      errors.push({ line: trimmed, error: "Pattern name is empty" });
+      continue;
+    }
+
+    if (!source) {
+      errors.push({ line: trimmed, error: "Pattern is empty" });
+      continue;
+    }
+
+    try {
+      patterns.push({ name, pattern: new RegExp(source, "i") });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push({ line: trimmed, error: `Invalid regex: ${message}` });
+      logWarn("Invalid meeting URL pattern (skipped)", { name, pattern: source });
+    }
+  }
+
+  return { patterns, errors };
+}
+
+/**
+ * Resolves the display timezone setting.
+ * Empty or unknown values fall back to the browser's timezone.
+ *
+ * @param raw Timezone name from settings (e.g. "America/New_York").
+ * @returns Valid IANA timezone name.
+ */
+export function resolveDisplayTimeZone(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed) return getDefaultTimeZone();
+
+  if (!isValidTimeZone(trimmed)) {
+    logWarn("Invalid display timezone (using browser timezone)", { timeZone: trimmed });
+    return getDefaultTimeZone();
+  }
+  return trimmed;
+}
+
+/**
+ * Parses the time format setting. Anything other than "12h" uses the 24-hour clock.
+ */
+export function parseTimeFormat(raw: string): TimeFormat {
+  return raw.trim().toLowerCase() === "12h" ? "12h" : "24h";
+}
+
+/**
+ * Parses the cancelled events setting. Unknown values use the default (strikethrough).
+ */
+export function parseCancelledEventsMode(raw: string): CancelledEventsMode {
+  const value = raw.trim().toLowerCase();
+  if (value === "skip" || value === "strikethrough" || value === "tag") {
+    return value;
+  }
+  return DEFAULT_CANCELLED_EVENTS;
+}
+
+/**
+ * Parses the fetch transport setting. Unknown values use the default (Roam proxy).
+ */
+export function parseFetchTransport(raw: string): FetchTransport {
+  const value = raw.trim().toLowerCase();
+  if (value === "roam-proxy" || value === "custom-proxy" || value === "direct") {
+    return value;
+  }
+  return DEFAULT_FETCH_TRANSPORT;
+}
+
+/**
+ * Parses a list of email addresses separated by newlines or commas.
+ * Addresses are lowercased and "mailto:" prefixes are removed.
+ *
+ * @param raw Email addresses from settings.
+ * @returns Unique email addresses.
+ */
+export function parseEmailList(raw: string): string[] {
+  if (!raw) return [];
+
+  const emails = new Set<string>();
+  for (const part of raw.split(/[\r\n,;]+/)) {
+    const email = part.trim().replace(/^mailto:/i, "").toLowerCase();
+    if (!email) continue;
+
+    if (!email.includes("@")) {
+      logWarn("Invalid email address (skipped)", { email });
+      continue;
+    }
+    emails.add(email);
+  }
+
+  return Array.from(emails);
+}
+
+/**
+ * Parses the tasks page setting. Slashes are removed so tasks stay on a single page
+ * next to the calendar's event pages. An empty value disables tasks.
  */
-function parseAttendeeAliases(raw: string): Map<string, string> {
+export function parseTasksPage(raw: string): string {
+  return raw.replace(/\//g, "").trim();
+}
+
+/**
+ * Parses attendee or category aliases from a multi-line string.
+ * Format: "Name;Page" (e.g. "Thiago Avelino;@avelino"). Keys are lowercased.
+ */
+export function parseAliases(raw: string): Map<string, string> {
   const map = new Map<string, string>();
   if (!raw) return map;
 
@@ -782,14 +1106,16 @@ export function parseCalendarsConfig(raw: string): ParseCalendarsResult {
           logWarn("Invalid calendar URL", { url: trimmed });
         }
       } else {
-        errors.push({ line: trimmed, error: "Invalid URL format (must start with http:// or https://)" });
+        errors.push({ line: trimmed, error: "Invalid URL format (must start with http://, https:// or webcal://)" });
         logWarn("Invalid calendar URL format", { url: trimmed });
       }
       continue;
     }
 
     const name = trimmed.slice(0, pipeIndex).trim();
-    const url = trimmed.slice(pipeIndex + 1).trim();
+    // Anything after a second "|" are per-calendar options (e.g. "private=busy")
+    const [urlPart, ...optionParts] = trimmed.slice(pipeIndex + 1).split("|");
+    const url = urlPart.trim();
 
     if (!name) {
       errors.push({ line: trimmed, error: "Calendar name is empty" });
@@ -804,17 +1130,191 @@ export function parseCalendarsConfig(raw: string): ParseCalendarsResult {
     }
 
     if (!isValidUrl(url)) {
-      errors.push({ line: trimmed, error: "Invalid URL format (must start with http:// or https://)" });
+      errors.push({ line: trimmed, error: "Invalid URL format (must start with http://, https:// or webcal://)" });
       logWarn("Invalid calendar URL format", { url });
       continue;
     }
 
-    calendars.push({ name, url });
+    const options = parseCalendarOptions(optionParts);
+    if (options.error) {
+      errors.push({ line: trimmed, error: options.error });
+      logWarn("Invalid calendar option", { line: trimmed, error: options.error });
+      continue;
+    }
+
+    calendars.push({ name, url, ...options.config });
   }
 
   return { calendars, errors };
 }
 
+const PRIVATE_EVENTS_POLICIES: readonly PrivateEventsPolicy[] = ["show", "busy", "title", "skip"];
+const CALENDAR_SOURCES: readonly CalendarSource[] = ["ics", "caldav"];
+
+/**
+ * Parses per-calendar options written after the URL (key=value, separated by "|").
+ * Supported options:
+ * - private=show|busy|title|skip: how events marked CLASS:PRIVATE or CONFIDENTIAL are written.
+ * - source=ics|caldav: whether the URL is an iCalendar feed or a CalDAV server.
+ */
+function parseCalendarOptions(parts: string[]): { config: Partial<CalendarConfig>; error?: string } {
+  const config: Partial<CalendarConfig> = {};
+
+  for (const part of parts) {
+    const option = part.trim();
+    if (!option) continue;
+
+    const equalsIndex = option.indexOf("=");
+    const key = (equalsIndex === -1 ? option : option.slice(0, equalsIndex)).trim().toLowerCase();
+    const value = equalsIndex === -1 ? "" : option.slice(equalsIndex + 1).trim().toLowerCase();
+
+    if (key === "private") {
+      if (!(PRIVATE_EVENTS_POLICIES as readonly string[]).includes(value)) {
+        return { config, error: `Invalid private option "${value}" (use show, busy, title or skip)` };
+      }
+      config.privateEvents = value as PrivateEventsPolicy;
+      continue;
+    }
+
+    if (key === "source") {
+      if (!(CALENDAR_SOURCES as readonly string[]).includes(value)) {
+        return { config, error: `Invalid source option "${value}" (use ics or caldav)` };
+      }
+      config.source = value as CalendarSource;
+      continue;
+    }
+
+    return { config, error: `Unknown calendar option "${key}"` };
+  }
+
+  return { config };
+}
+
+/**
+ * Result from parsing calendar credentials.
+ */
+export interface ParseCalendarCredentialsResult {
+  /** Credentials by lower-cased calendar name */
+  credentials: Map<string, CalendarAuth>;
+  /** Errors, with secrets masked in the lines */
+  errors: { line: string; error: string }[];
+}
+
+/**
+ * Masks the secrets of a credentials line (everything after the user name or type),
+ * so it can be shown in validation errors and logs.
+ */
+function maskCredentialsLine(line: string): string {
+  const parts = line.split("|");
+  if (parts.length < 2) return "****";
+  const visibleParts = parts[1]?.trim().toLowerCase() === "basic" ? 3 : 2;
+  return [...parts.slice(0, visibleParts), ...(parts.length > visibleParts ? ["****"] : [])].join("|");
+}
+
+/**
+ * Masks the secrets of every credentials line, for showing the setting without revealing them.
+ */
+function maskCredentials(raw: string): string {
+  return raw
+    .split(/\r?\n/)
+    .map((line) => (line.trim() ? maskCredentialsLine(line.trim()) : line))
+    .join("\n");
+}
+
+/**
+ * Parses calendar credentials from a multi-line string.
+ * Format: Name|basic|username|password or Name|bearer|token (one per line).
+ * Passwords and tokens may contain "|". Lines starting with # or // are comments.
+ * Returns both valid credentials and parsing errors.
+ */
+export function parseCalendarCredentials(raw: string): ParseCalendarCredentialsResult {
+  const credentials = new Map<string, CalendarAuth>();
+  const errors: { line: string; error: string }[] = [];
+  if (!raw) return { credentials, errors };
+
+  for (const line of raw.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    // Skip comment lines
+    if (trimmed.startsWith("#") || trimmed.startsWith("//")) {
+      continue;
+    }
+
+    const [rawName, rawType = "", ...rest] = trimmed.split("|");
+    const name = rawName.trim();
+    const type = rawType.trim().toLowerCase();
+    const masked = maskCredentialsLine(trimmed);
+
+    if (!name) {
+      errors.push({ line: masked, error: "Calendar name is empty" });
+      continue;
+    }
+
+    if (type === "basic") {
+      const username = (rest[0] ?? "").trim();
+      const password = rest.slice(1).join("|");
+      if (!username || !password) {
+        errors.push({ line: masked, error: "Missing user name or password (format: Name|basic|user|password)" });
+        continue;
+      }
+      credentials.set(name.toLowerCase(), { type: "basic", username, password });
+    } else if (type === "bearer") {
+      const token = rest.join("|").trim();
+      if (!token) {
+        errors.push({ line: masked, error: "Missing token (format: Name|bearer|token)" });
+        continue;
+      }
+      credentials.set(name.toLowerCase(), { type: "bearer", token });
+    } else {
+      errors.push({ line: masked, error: `Unknown authentication type "${rawType.trim()}" (use basic or bearer)` });
+    }
+  }
+
+  for (const error of errors) {
+    logWarn("Invalid calendar credentials (skipped)", error);
+  }
+
+  return { credentials, errors };
+}
+
+let credentialsOnPageWarned = false;
+
+/**
+ * Warns (once) when the settings page still holds calendar credentials.
+ * Secrets are only read from the settings panel: the page is synced and exported with the graph.
+ */
+function warnAboutCredentialsOnPage(tree: RoamBasicNode[]): void {
+  if (credentialsOnPageWarned) return;
+  const node = tree.find((n) => /^\s*calendar credentials\b/i.test(n.text));
+  if (!node?.children?.some((child) => child.text.trim())) return;
+
+  credentialsOnPageWarned = true;
+  logWarn(
+    `Calendar credentials on ${CONFIG_PAGE_TITLE} are ignored. Delete them from the page and enter them in the extension settings panel.`
+  );
+}
+
+/**
+ * Attaches credentials to the calendars they name (names are matched case-insensitively).
+ */
+function applyCalendarCredentials(
+  calendars: CalendarConfig[],
+  credentials: Map<string, CalendarAuth>
+): CalendarConfig[] {
+  const names = new Set(calendars.map((calendar) => calendar.name.toLowerCase()));
+  for (const name of credentials.keys()) {
+    if (!names.has(name)) {
+      logWarn("Credentials for unknown calendar (ignored)", { name });
+    }
+  }
+
+  return calendars.map((calendar) => {
+    const auth = credentials.get(calendar.name.toLowerCase());
+    return auth ? { ...calendar, auth } : calendar;
+  });
+}
+
 /**
  * Legacy wrapper for backward compatibility.
  * Returns only valid calendars, logging errors.
@@ -957,6 +1457,187 @@ function registerSettingsPanel(extensionAPI: ExtensionAPI) {
       });
     };
 
+  /**
+   * Renders per-line validation errors of a multi-line setting (nothing when there are none).
+   */
+  const renderValidationErrors = (errors: { line: string; error: string }[]) =>
+    errors.length > 0 &&
+    React.createElement(
+      "div",
+      {
+        style: {
+          fontSize: "0.85rem",
+          color: "#e53e3e",
+          backgroundColor: "#fff5f5",
+          padding: "0.5rem",
+          borderRadius: "4px",
+          border: "1px solid #feb2b2",
+        },
+      },
+      errors.map((err, i) =>
+        React.createElement(
+          "div",
+          { key: i },
+          `Line "${err.line.substring(0, 30)}${err.line.length > 30 ? "..." : ""}": ${err.error}`
+        )
+      )
+    );
+
+  /**
+   * Meeting URL patterns TextArea with validation feedback.
+   */
+  const MeetingPatternsTextArea = () => {
+    const getInitial = () =>
+      getString(extensionAPI.settings.getAll() ?? {}, SETTINGS_KEYS.meetingUrlPatterns) ?? "";
+    const [value, setValue] = useState(getInitial());
+    const [validationErrors, setValidationErrors] = useState<{ line: string; error: string }[]>([]);
+
+    useEffect(() => {
+      setValue(getInitial());
+    }, []);
+
+    // Validate on value change
+    useEffect(() => {
+      setValidationErrors(parseMeetingUrlPatterns(value).errors);
+    }, [value]);
+
+    return React.createElement(
+      "div",
+      { style: { display: "flex", flexDirection: "column", gap: "0.5rem" } },
+      React.createElement("textarea", {
+        placeholder: "Acme Video|https://video\\.acme\\.com/room/\\w+",
+        value,
+        style: {
+          width: "100%",
+          minHeight: "6rem",
+          fontFamily: "monospace",
+          borderColor: validationErrors.length > 0 ? "#e53e3e" : undefined,
+        },
+        onChange: (event: { target: { value: string } }) => {
+          const next = event.target.value;
+          setValue(next);
+          void extensionAPI.settings.set(SETTINGS_KEYS.meetingUrlPatterns, next);
+        },
+      }),
+      renderValidationErrors(validationErrors)
+    );
+  };
+
+  /**
+   * Calendar credentials TextArea with validation feedback.
+   * Until the user reveals them, the lines are shown read-only with their secrets masked;
+   * new credentials are added through a form whose secret field is a password input.
+   */
+  const CredentialsTextArea = () => {
+    const getInitial = () =>
+      getString(extensionAPI.settings.getAll() ?? {}, SETTINGS_KEYS.calendarCredentials) ?? "";
+    const emptyDraft = { name: "", type: "basic", username: "", secret: "" };
+    const [value, setValue] = useState(getInitial());
+    const [revealed, setRevealed] = useState(false);
+    const [draft, setDraft] = useState(emptyDraft);
+    const [validationErrors, setValidationErrors] = useState<{ line: string; error: string }[]>([]);
+
+    const saveValue = (next: string) => {
+      setValue(next);
+      void extensionAPI.settings.set(SETTINGS_KEYS.calendarCredentials, next);
+    };
+
+    const addDraft = () => {
+      const fields =
+        draft.type === "basic"
+          ? [draft.name, "basic", draft.username, draft.secret]
+          : [draft.name, "bearer", draft.secret];
+      const line = fields.map((field) => field.trim()).join("|");
+      saveValue([...value.split(/\r?\n/).filter((existing) => existing.trim()), line].join("\n"));
+      setDraft(emptyDraft);
+    };
+
+    const draftInput = (field: "name" | "username" | "secret", placeholder: string, type = "text") =>
+      React.createElement("input", {
+        type,
+        placeholder,
+        value: draft[field],
+        autoComplete: type === "password" ? "new-password" : "off",
+        style: { flex: 1, minWidth: 0 },
+        onChange: (event: { target: { value: string } }) => setDraft({ ...draft, [field]: event.target.value }),
+      });
+
+    useEffect(() => {
+      setValue(getInitial());
+    }, []);
+
+    // Validate on value change
+    useEffect(() => {
+      setValidationErrors(parseCalendarCredentials(value).errors);
+    }, [value]);
+
+    return React.createElement(
+      "div",
+      { style: { display: "flex", flexDirection: "column", gap: "0.5rem" } },
+      React.createElement("textarea", {
+        placeholder: "Nextcloud|basic|alice|app-password",
+        value: revealed ? value : maskCredentials(value),
+        readOnly: !revealed,
+        autoComplete: "off",
+        spellCheck: false,
+        style: {
+          width: "100%",
+          minHeight: "6rem",
+          fontFamily: "monospace",
+          borderColor: validationErrors.length > 0 ? "#e53e3e" : undefined,
+        },
+        onChange: (event: { target: { value: string } }) => saveValue(event.target.value),
+      }),
+      React.createElement(
+        "div",
+        { style: { display: "flex", gap: "0.5rem", alignItems: "center" } },
+        draftInput("name", "Calendar name"),
+        React.createElement(
+          "select",
+          {
+            value: draft.type,
+            onChange: (event: { target: { value: string } }) => setDraft({ ...draft, type: event.target.value }),
+          },
+          React.createElement("option", { value: "basic" }, "basic"),
+          React.createElement("option", { value: "bearer" }, "bearer")
+        ),
+        draft.type === "basic" && draftInput("username", "Username"),
+        draftInput("secret", draft.type === "basic" ? "Password" : "Token", "password"),
+        React.createElement(
+          "button",
+          {
+            onClick: addDraft,
+            disabled: !draft.name.trim() || !draft.secret || (draft.type === "basic" && !draft.username.trim()),
+            style: {
+              padding: "0.25rem 0.75rem",
+              cursor: "pointer",
+              border: "1px solid #cbd5e0",
+              borderRadius: "4px",
+              fontSize: "0.85rem",
+            },
+          },
+          "Add"
+        )
+      ),
+      React.createElement(
+        "button",
+        {
+          onClick: () => setRevealed(!revealed),
+          style: {
+            alignSelf: "flex-start",
+            padding: "0.25rem 0.75rem",
+            cursor: "pointer",
+            border: "1px solid #cbd5e0",
+            borderRadius: "4px",
+            fontSize: "0.85rem",
+          },
+        },
+        revealed ? "Hide" : "Show and edit"
+      ),
+      renderValidationErrors(validationErrors)
+    );
+  };
+
   /**
    * Calendars TextArea with validation feedback.
    */
@@ -985,7 +1666,10 @@ function registerSettingsPanel(extensionAPI: ExtensionAPI) {
     const testConnections = async () => {
       setIsValidating(true);
       const result = parseCalendarsConfig(value);
-      const results = await validateAllCalendars(result.calendars, true);
+      const credentials = parseCalendarCredentials(
+        getString(extensionAPI.settings.getAll() ?? {}, SETTINGS_KEYS.calendarCredentials) ?? ""
+      ).credentials;
+      const results = await validateAllCalendars(applyCalendarCredentials(result.calendars, credentials), true);
       setConnectionResults(results);
       setIsValidating(false);
     };
@@ -1018,27 +1702,7 @@ function registerSettingsPanel(extensionAPI: ExtensionAPI) {
           : "No calendars configured"
       ),
       // Validation errors
-      validationErrors.length > 0 &&
-        React.createElement(
-          "div",
-          {
-            style: {
-              fontSize: "0.85rem",
-              color: "#e53e3e",
-              backgroundColor: "#fff5f5",
-              padding: "0.5rem",
-              borderRadius: "4px",
-              border: "1px solid #feb2b2",
-            },
-          },
-          validationErrors.map((err, i) =>
-            React.createElement(
-              "div",
-              { key: i },
-              `Line "${err.line.substring(0, 30)}${err.line.length > 30 ? "..." : ""}": ${err.error}`
-            )
-          )
-        ),
+      renderValidationErrors(validationErrors),
       // Test connection button
       validCount > 0 &&
         React.createElement(
@@ -1107,6 +1771,30 @@ function registerSettingsPanel(extensionAPI: ExtensionAPI) {
     );
   };
 
+  const Select = (key: string, options: { value: string; label: string }[]) =>
+    function SelectComponent() {
+      const getInitial = () =>
+        getString(extensionAPI.settings.getAll() ?? {}, key) ?? String(DEFAULT_SETTINGS[key] ?? "");
+      const [value, setValue] = useState(getInitial());
+      useEffect(() => {
+        setValue(getInitial());
+      }, []);
+      return React.createElement(
+        "select",
+        {
+          value,
+          onChange: (event: { target: { value: string } }) => {
+            const next = event.target.value;
+            setValue(next);
+            void extensionAPI.settings.set(key, next);
+          },
+        },
+        options.map((option) =>
+          React.createElement("option", { key: option.value, value: option.value }, option.label)
+        )
+      );
+    };
+
   const Toggle = (key: string) =>
     function ToggleComponent() {
       const getInitial = () =>
@@ -1157,12 +1845,22 @@ function registerSettingsPanel(extensionAPI: ExtensionAPI) {
         id: SETTINGS_KEYS.calendars,
         name: "Calendars",
         description:
-          "Add your iCal (.ics) URLs. Format: name|url (one per line). Lines starting with # or // are comments. Example:\nWork|https://calendar.google.com/calendar/ical/work%40gmail.com/public/basic.ics",
+          "Add your iCal (.ics) URLs. Format: name|url (one per line). Lines starting with # or // are comments. Add |private=busy, |private=title or |private=skip to redact private events of a calendar, and |source=caldav for a CalDAV server (principal or calendar URL). Example:\nWork|https://calendar.google.com/calendar/ical/work%40gmail.com/public/basic.ics|private=busy",
         action: {
           type: "reactComponent",
           component: CalendarsTextArea,
         },
       },
+      {
+        id: SETTINGS_KEYS.calendarCredentials,
+        name: "Calendar Credentials",
+        description:
+          "Credentials of calendars that need a login (e.g. Nextcloud, Radicale), one per line: name|basic|user|password or name|bearer|token. The name must match a calendar above. Add them with the form below (the secret is typed in a password field); saved lines stay masked until you click Show and edit. They are sent only to your calendar server (through the proxy, if one is used).",
+        action: {
+          type: "reactComponent",
+          component: CredentialsTextArea,
+        },
+      },
       {
         id: SETTINGS_KEYS.enableDebugLogs,
         name: "Enable Debug Logs",
@@ -1193,6 +1891,40 @@ function registerSettingsPanel(extensionAPI: ExtensionAPI) {
           component: TextInput(SETTINGS_KEYS.batchDelayMs, "number", String(DEFAULT_BATCH_DELAY_MS)),
         },
       },
+      {
+        id: SETTINGS_KEYS.fetchConcurrency,
+        name: "Fetch Concurrency",
+        description:
+          "Number of calendars downloaded at the same time (1-10). Use 1 to download one calendar after another. Default: 4.",
+        action: {
+          type: "reactComponent",
+          component: TextInput(SETTINGS_KEYS.fetchConcurrency, "number", String(DEFAULT_FETCH_CONCURRENCY)),
+        },
+      },
+      {
+        id: SETTINGS_KEYS.fetchTransport,
+        name: "Fetch Transport",
+        description:
+          "How calendars are downloaded. The other ways are tried when this one is unavailable or keeps failing. Default: Roam proxy.",
+        action: {
+          type: "reactComponent",
+          component: Select(SETTINGS_KEYS.fetchTransport, [
+            { value: "roam-proxy", label: "Roam CORS proxy" },
+            { value: "custom-proxy", label: "Custom proxy (Proxy URL Template)" },
+            { value: "direct", label: "Direct (server must allow CORS)" },
+          ]),
+        },
+      },
+      {
+        id: SETTINGS_KEYS.proxyUrlTemplate,
+        name: "Proxy URL Template",
+        description:
+          "Your own CORS proxy. {url} is replaced with the encoded calendar URL; without {url} the calendar URL is appended after a slash.",
+        action: {
+          type: "reactComponent",
+          component: TextInput(SETTINGS_KEYS.proxyUrlTemplate, "text", "https://proxy.example.com/?url={url}"),
+        },
+      },
       {
         id: SETTINGS_KEYS.excludePatterns,
         name: "Exclude Title Patterns",
@@ -1213,6 +1945,16 @@ function registerSettingsPanel(extensionAPI: ExtensionAPI) {
           component: TextArea(SETTINGS_KEYS.attendeeAliases, "Thiago Avelino;@avelino\navelino@example.com;@avelino"),
         },
       },
+      {
+        id: SETTINGS_KEYS.categoryAliases,
+        name: "Category Aliases",
+        description:
+          "Map event categories (CATEGORIES) to Roam pages (one per line). Format: Category;Page. Other categories become tags like #client. Example: Hiring;Recruiting 2025",
+        action: {
+          type: "reactComponent",
+          component: TextArea(SETTINGS_KEYS.categoryAliases, "Hiring;Recruiting 2025\nClient;Acme Project"),
+        },
+      },
       {
         id: SETTINGS_KEYS.syncDaysPast,
         name: "Sync Days Past",
@@ -1243,6 +1985,82 @@ function registerSettingsPanel(extensionAPI: ExtensionAPI) {
           component: TextInput(SETTINGS_KEYS.titlePrefix, "text", DEFAULT_TITLE_PREFIX),
         },
       },
+      {
+        id: SETTINGS_KEYS.displayTimeZone,
+        name: "Display Timezone",
+        description:
+          "IANA timezone used to link events to daily notes and filter the sync window (e.g. America/New_York). Leave empty to use the browser timezone.",
+        action: {
+          type: "reactComponent",
+          component: TextInput(SETTINGS_KEYS.displayTimeZone, "text", getDefaultTimeZone()),
+        },
+      },
+      {
+        id: SETTINGS_KEYS.timeFormat,
+        name: "Time Format",
+        description: "Clock format for event start and end times. Default: 24-hour.",
+        action: {
+          type: "reactComponent",
+          component: Select(SETTINGS_KEYS.timeFormat, [
+            { value: "24h", label: "24-hour (14:30)" },
+            { value: "12h", label: "12-hour (2:30 PM)" },
+          ]),
+        },
+      },
+      {
+        id: SETTINGS_KEYS.cancelledEvents,
+        name: "Cancelled Events",
+        description:
+          "What to do with events marked as cancelled (STATUS:CANCELLED). Tentative events are always tagged #tentative. Default: strike through.",
+        action: {
+          type: "reactComponent",
+          component: Select(SETTINGS_KEYS.cancelledEvents, [
+            { value: "strikethrough", label: "Strike through title" },
+            { value: "tag", label: "Tag with #cancelled" },
+            { value: "skip", label: "Skip (don't sync)" },
+          ]),
+        },
+      },
+      {
+        id: SETTINGS_KEYS.myEmails,
+        name: "My Email Addresses",
+        description:
+          "Your email addresses (one per line). Events you declined are skipped; accepted, tentative and unanswered invitations are kept.",
+        action: {
+          type: "reactComponent",
+          component: TextArea(SETTINGS_KEYS.myEmails, "me@example.com\nme@work.example.com"),
+        },
+      },
+      {
+        id: SETTINGS_KEYS.onlyMyEvents,
+        name: "Only My Events",
+        description:
+          "Only sync events where one of your email addresses is an attendee or the organizer. Requires My Email Addresses.",
+        action: {
+          type: "reactComponent",
+          component: Toggle(SETTINGS_KEYS.onlyMyEvents),
+        },
+      },
+      {
+        id: SETTINGS_KEYS.meetingUrlPatterns,
+        name: "Meeting URL Patterns",
+        description:
+          "Custom video conference links to detect (one per line). Format: Name|regex. Custom patterns are checked before the built-in ones (Zoom, Meet, Teams, ...). Example: Acme Video|https://video\\.acme\\.com/room/\\w+",
+        action: {
+          type: "reactComponent",
+          component: MeetingPatternsTextArea,
+        },
+      },
+      {
+        id: SETTINGS_KEYS.tasksPage,
+        name: "Tasks Page",
+        description:
+          "Set a page name (e.g. tasks) to sync tasks (VTODO) as TODO blocks to `prefix/<calendar>/<tasks page>`. Empty (the default) skips tasks.",
+        action: {
+          type: "reactComponent",
+          component: TextInput(SETTINGS_KEYS.tasksPage, "text", "tasks"),
+        },
+      },
     ],
   });
 }
@@ -0,0 +1,138 @@
+/**
+ * Calendar date and wall-clock time in a specific timezone.
+ * Month is 1-based (1 = January).
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Cached formatters per timezone. Creating Intl.DateTimeFormat instances is expensive
+ * and they are used for every event during a sync.
+ */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the browser's timezone (e.g. "Europe/Berlin"), falling back to UTC.
+ */
+export function getDefaultTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * Checks if a string is a timezone name known to the runtime (IANA name such as "America/New_York").
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the calendar date and wall-clock time of an instant in a timezone.
+ *
+ * @param date Instant to convert.
+ * @param timeZone IANA timezone name.
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Gets the UTC offset (in milliseconds) of a timezone at a given instant.
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return asUtc - wholeSeconds;
+}
+
+/**
+ * Converts a wall-clock time in a timezone to the instant it represents.
+ * Out-of-range values overflow like Date.UTC (e.g. day 0 is the last day of the previous month).
+ *
+ * @param parts Wall-clock time; missing time fields default to midnight.
+ * @param timeZone IANA timezone name.
+ */
+export function zonedTimeToDate(
+  parts: Pick<ZonedDateParts, "year" | "month" | "day"> & Partial<ZonedDateParts>,
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0
+  );
+
+  const offset = getTimeZoneOffsetMs(new Date(asUtc), timeZone);
+  let result = asUtc - offset;
+
+  // The offset may differ at the resulting instant around DST transitions
+  const correctedOffset = getTimeZoneOffsetMs(new Date(result), timeZone);
+  if (correctedOffset !== offset) {
+    result = asUtc - correctedOffset;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Returns the start of the day (midnight) in a timezone, shifted by a number of days.
+ *
+ * @param date Reference instant.
+ * @param timeZone IANA timezone name.
+ * @param dayOffset Days to add to the reference day (may be negative).
+ */
+export function startOfDayInZone(date: Date, timeZone: string, dayOffset = 0): Date {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return zonedTimeToDate({ year, month, day: day + dayOffset }, timeZone);
+}
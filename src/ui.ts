@@ -19,10 +19,11 @@ function createIconButton(icon: string): HTMLSpanElement {
 
 export async function registerCommand(
   extensionAPI: ExtensionAPI,
-  onSync: () => Promise<void>
+  onSync: () => Promise<void>,
+  label: string = COMMAND_LABEL
 ): Promise<() => Promise<void>> {
   const command = {
-    label: COMMAND_LABEL,
+    label,
     callback: () => {
       void onSync();
     },
@@ -34,7 +35,7 @@ export async function registerCommand(
     logInfo("Command registered via extensionAPI.ui.commandPalette");
 
     return async () => {
-      await extensionCommandPalette.removeCommand({ label: COMMAND_LABEL });
+      await extensionCommandPalette.removeCommand({ label });
     };
   }
 
@@ -55,7 +56,7 @@ export async function registerCommand(
     logInfo("Command registered via window.roamAlphaAPI.ui.commandPalette");
 
     return async () => {
-      await legacyCommandPalette.removeCommand({ label: COMMAND_LABEL });
+      await legacyCommandPalette.removeCommand({ label });
     };
   }
   logWarn("Command palette API not available");
@@ -90,3 +91,40 @@ export function registerTopbarButton(onSync: () => Promise<void>): () => void {
     button.remove();
   };
 }
+
+/**
+ * Opens the browser file picker for a calendar file.
+ *
+ * @returns The chosen file, or undefined if the picker was cancelled.
+ */
+export function pickCalendarFile(): Promise<File | undefined> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".ics,.ical,.ifb,.icalendar,.json,.xml,text/calendar";
+    input.style.display = "none";
+
+    const finish = (file: File | undefined) => {
+      input.remove();
+      resolve(file);
+    };
+    input.addEventListener("change", () => finish(input.files?.[0]));
+    input.addEventListener("cancel", () => finish(undefined));
+
+    document.body.appendChild(input);
+    input.click();
+  });
+}
+
+/**
+ * Asks for the calendar name imported events are written under.
+ * Slashes are replaced, since the name becomes part of the page path.
+ *
+ * @param defaultName Name suggested in the prompt (e.g. the file name).
+ * @returns The calendar name, or undefined if the prompt was cancelled or left empty.
+ */
+export function promptCalendarName(defaultName: string): string | undefined {
+  const name = window.prompt("Calendar name for the imported events:", defaultName);
+  const sanitized = name?.replace(/\//g, "-").trim();
+  return sanitized || undefined;
+}
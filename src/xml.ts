@@ -0,0 +1,77 @@
+/**
+ * A parsed XML element (namespace prefixes removed, names lower-cased).
+ */
+export interface XmlElement {
+  name: string;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * Decodes the predefined XML entities and character references.
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+    }
+    const value = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  });
+}
+
+/**
+ * Parses an XML document into elements (used for xCal feeds and WebDAV responses).
+ * Only elements, text, CDATA, comments and processing instructions are supported; attributes are ignored.
+ *
+ * @throws When tags are not balanced.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  const tokenPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([\w.:-]+)[^>]*?(\/?)>|([^<]+)/gi;
+
+  for (const match of xml.matchAll(tokenPattern)) {
+    const [, cdata, closing, rawName, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeXmlEntities(text);
+    } else if (rawName) {
+      const name = rawName.slice(rawName.indexOf(":") + 1).toLowerCase();
+      if (closing) {
+        if (stack.length === 1 || current.name !== name) {
+          throw new Error(`Unexpected closing tag </${rawName}>`);
+        }
+        stack.pop();
+      } else {
+        const element: XmlElement = { name, children: [], text: "" };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  return root;
+}
+
+/**
+ * Gets the first child element with the given name.
+ */
+export function findChild(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { writeBlocks } from "../src/blocks";
+import type { ICalEvent, ICalTodo } from "../src/ical";
+
+interface StoredBlock {
+  uid: string;
+  text: string;
+  children: string[];
+}
+
+interface InputNode {
+  text: string;
+  children?: InputNode[];
+}
+
+/**
+ * In-memory Roam graph behind the settings helpers used by blocks.ts.
+ */
+const graph = vi.hoisted(() => ({
+  pages: new Map<string, string>(),
+  blocks: new Map<string, StoredBlock>(),
+  nextUid: 0,
+}));
+
+vi.mock("../src/settings", () => {
+  const addBlock = (parentUid: string, node: InputNode): string => {
+    const uid = `uid-${graph.nextUid++}`;
+    graph.blocks.set(uid, { uid, text: node.text, children: [] });
+    graph.blocks.get(parentUid)!.children.push(uid);
+    for (const child of node.children ?? []) addBlock(uid, child);
+    return uid;
+  };
+  const toTree = (uid: string): { uid: string; text: string; children: unknown[] } => {
+    const block = graph.blocks.get(uid)!;
+    return { uid, text: block.text, children: block.children.map(toTree) };
+  };
+
+  return {
+    getBasicTreeByParentUid: (parentUid: string) => graph.blocks.get(parentUid)?.children.map(toTree) ?? [],
+    getPageUidByPageTitle: (title: string) => graph.pages.get(title) ?? "",
+    getPageTitlesStartingWithPrefix: (prefix: string) =>
+      Array.from(graph.pages.keys()).filter((title) => title.startsWith(prefix)),
+    createPage: async ({ title }: { title: string }) => {
+      const uid = `page-${graph.nextUid++}`;
+      graph.pages.set(title, uid);
+      graph.blocks.set(uid, { uid, text: title, children: [] });
+      return uid;
+    },
+    createBlock: async ({ parentUid, node }: { parentUid: string; node: InputNode }) => addBlock(parentUid, node),
+    updateBlock: async ({ uid, text }: { uid: string; text: string }) => {
+      graph.blocks.get(uid)!.text = text;
+    },
+    deleteBlock: async (uid: string) => {
+      graph.blocks.delete(uid);
+      for (const block of graph.blocks.values()) {
+        block.children = block.children.filter((child) => child !== uid);
+      }
+    },
+    delay: async () => {},
+    maybeYield: async () => {},
+    MUTATION_DELAY_MS: 0,
+  };
+});
+
+const baseEvent: ICalEvent = {
+  uid: "planning@example.com",
+  summary: "Planning",
+  description: "",
+  dtstart: new Date("2025-01-15T10:00:00Z"),
+  dtend: new Date("2025-01-15T11:00:00Z"),
+  location: "",
+  url: "",
+  attendees: [],
+};
+
+const sync = (event: ICalEvent) =>
+  writeBlocks("ical", [{ name: "Work", url: "https://example.com/work.ics", events: [event], todos: [] }], {
+    batchSize: 50,
+    batchDelayMs: 0,
+    excludePatterns: [],
+    titlePrefix: "",
+    attendeeAliases: new Map(),
+    timeZone: "UTC",
+  });
+
+const eventProperties = () => {
+  const [pageUid] = graph.pages.values();
+  const [eventUid] = graph.blocks.get(pageUid)!.children;
+  return graph.blocks.get(eventUid)!.children.map((uid) => graph.blocks.get(uid)!.text);
+};
+
+describe("writeBlocks", () => {
+  beforeEach(() => {
+    graph.pages.clear();
+    graph.blocks.clear();
+  });
+
+  it("should remove properties the event no longer has", async () => {
+    await sync({ ...baseEvent, status: "TENTATIVE", location: "Room 1" });
+    expect(eventProperties().some((text) => text.startsWith("ical-status::"))).toBe(true);
+
+    await sync({ ...baseEvent, status: "CONFIRMED" });
+
+    const properties = eventProperties();
+    expect(properties.some((text) => text.startsWith("ical-status::"))).toBe(false);
+    expect(properties.some((text) => text.startsWith("ical-location::"))).toBe(false);
+    expect(properties.some((text) => text.startsWith("ical-id::"))).toBe(true);
+  });
+
+  it("should keep properties added by the user", async () => {
+    await sync(baseEvent);
+    const [pageUid] = graph.pages.values();
+    const [eventUid] = graph.blocks.get(pageUid)!.children;
+    graph.blocks.set("user-note", { uid: "user-note", text: "notes:: bring slides", children: [] });
+    graph.blocks.get(eventUid)!.children.push("user-note");
+
+    await sync({ ...baseEvent, summary: "Planning (updated)" });
+
+    expect(eventProperties()).toContain("notes:: bring slides");
+  });
+
+  it("should keep every occurrence when a recurring event spans several batches", async () => {
+    const occurrences = [15, 16, 17, 18].map((day) => ({
+      ...baseEvent,
+      dtstart: new Date(`2025-01-${day}T10:00:00Z`),
+      dtend: new Date(`2025-01-${day}T11:00:00Z`),
+      recurrenceId: `202501${day}T100000Z`,
+    }));
+    const syncOccurrences = (events: ICalEvent[]) =>
+      writeBlocks("ical", [{ name: "Work", url: "https://example.com/work.ics", events, todos: [] }], {
+        batchSize: 2,
+        batchDelayMs: 0,
+        excludePatterns: [],
+        titlePrefix: "",
+        attendeeAliases: new Map(),
+        timeZone: "UTC",
+      });
+
+    await syncOccurrences(occurrences);
+    const [pageUid] = graph.pages.values();
+    expect(graph.blocks.get(pageUid)!.children).toHaveLength(4);
+
+    await syncOccurrences(occurrences.slice(1));
+    expect(graph.blocks.get(pageUid)!.children).toHaveLength(3);
+  });
+
+  it("should mark imported tasks so later syncs keep them", async () => {
+    const todo: ICalTodo = {
+      uid: "todo@example.com",
+      summary: "Send slides",
+      description: "",
+      due: null,
+      completed: null,
+      url: "",
+    };
+    await writeBlocks("ical", [{ name: "Work", url: "work.ics", events: [], todos: [todo] }], {
+      batchSize: 50,
+      batchDelayMs: 0,
+      excludePatterns: [],
+      titlePrefix: "",
+      attendeeAliases: new Map(),
+      tasksPage: "tasks",
+      imported: true,
+    });
+
+    const pageUid = graph.pages.get("ical/Work/tasks")!;
+    const [todoUid] = graph.blocks.get(pageUid)!.children;
+    const properties = graph.blocks.get(todoUid)!.children.map((uid) => graph.blocks.get(uid)!.text);
+    expect(properties).toContain("ical-source:: import");
+  });
+});
@@ -0,0 +1,381 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  buildCalendarQuery,
+  discoverCalDavCollections,
+  fetchCalDavCalendar,
+  formatCalDavDate,
+  parseMultistatus,
+} from "../src/caldav";
+import { clearCalendarCache, fetchAllCalendars } from "../src/ical";
+import type { CalendarAuth } from "../src/http";
+
+const AUTH: CalendarAuth = { type: "basic", username: "alice", password: "secret" };
+const OTHER_AUTH: CalendarAuth = { type: "basic", username: "assistant", password: "other-secret" };
+const AUTH_HEADERS = new Set(
+  ["alice:secret", "assistant:other-secret"].map((login) => `Basic ${Buffer.from(login).toString("base64")}`)
+);
+const CALENDAR_PATH = "/calendars/alice/work/";
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  depth?: string;
+  body: string;
+}
+
+/**
+ * In-memory CalDAV server with one calendar (Work), a principal and a calendar home.
+ * Every change bumps the sync token and the ctag.
+ */
+const server = {
+  version: 1,
+  events: new Map<string, string>(),
+  changes: [] as { version: number; href: string }[],
+  requests: [] as RecordedRequest[],
+  rejectSyncTokens: false,
+  reset() {
+    this.version = 1;
+    this.events.clear();
+    this.changes = [];
+    this.requests = [];
+    this.rejectSyncTokens = false;
+  },
+  put(uid: string, summary: string, start: Date) {
+    this.version++;
+    const href = `${CALENDAR_PATH}${uid}.ics`;
+    this.events.set(href, buildEvent(uid, summary, start));
+    this.changes.push({ version: this.version, href });
+  },
+  remove(uid: string) {
+    this.version++;
+    const href = `${CALENDAR_PATH}${uid}.ics`;
+    this.events.delete(href);
+    this.changes.push({ version: this.version, href });
+  },
+};
+
+function buildEvent(uid: string, summary: string, start: Date): string {
+  const end = new Date(start.getTime() + 60 * 60 * 1000);
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTART:${formatCalDavDate(start)}`,
+    `DTEND:${formatCalDavDate(end)}`,
+    `SUMMARY:${summary}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function multistatus(responses: string[], syncToken?: string): string {
+  const token = syncToken ? `<d:sync-token>${syncToken}</d:sync-token>` : "";
+  return `<?xml version="1.0" encoding="utf-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/">${responses.join("")}${token}</d:multistatus>`;
+}
+
+function propResponse(href: string, props: string, missingProps = ""): string {
+  const missing = missingProps
+    ? `<d:propstat><d:prop>${missingProps}</d:prop><d:status>HTTP/1.1 404 Not Found</d:status></d:propstat>`
+    : "";
+  return `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>${missing}</d:response>`;
+}
+
+function eventResponse(href: string): string {
+  return propResponse(
+    href,
+    `<d:getetag>"${href}-${server.version}"</d:getetag><cal:calendar-data>${escapeXml(server.events.get(href) ?? "")}</cal:calendar-data>`
+  );
+}
+
+function handleRequest(method: string, path: string, body: string): { status: number; body: string } {
+  const calendarProps =
+    "<d:resourcetype><d:collection/><cal:calendar/></d:resourcetype><d:displayname>Work</d:displayname>" +
+    `<cs:getctag>ctag-${server.version}</cs:getctag><d:sync-token>http://mock/sync/${server.version}</d:sync-token>`;
+
+  if (method === "PROPFIND" && path === "/principals/alice/") {
+    return {
+      status: 207,
+      body: multistatus([
+        propResponse(
+          path,
+          "<d:resourcetype><d:principal/></d:resourcetype>" +
+            "<d:current-user-principal><d:href>/principals/alice/</d:href></d:current-user-principal>" +
+            "<cal:calendar-home-set><d:href>/calendars/alice/</d:href></cal:calendar-home-set>",
+          "<d:displayname/>"
+        ),
+      ]),
+    };
+  }
+
+  if (method === "PROPFIND" && path === "/calendars/alice/") {
+    return {
+      status: 207,
+      body: multistatus([
+        propResponse(path, "<d:resourcetype><d:collection/></d:resourcetype>"),
+        propResponse(CALENDAR_PATH, calendarProps),
+        propResponse(
+          "/calendars/alice/inbox/",
+          "<d:resourcetype><d:collection/><cal:schedule-inbox/></d:resourcetype>"
+        ),
+      ]),
+    };
+  }
+
+  if (method === "PROPFIND" && path === CALENDAR_PATH) {
+    return { status: 207, body: multistatus([propResponse(path, calendarProps)]) };
+  }
+
+  if (method === "REPORT" && path === CALENDAR_PATH && body.includes("calendar-query")) {
+    const start = body.match(/start="(\w+)"/)?.[1] ?? "";
+    const end = body.match(/end="(\w+)"/)?.[1] ?? "99999999T999999Z";
+    const hrefs = Array.from(server.events.entries())
+      .filter(([, data]) => {
+        const dtstart = data.match(/^DTSTART:(\w+)$/m)?.[1] ?? "";
+        return dtstart >= start && dtstart < end;
+      })
+      .map(([href]) => href);
+    return { status: 207, body: multistatus(hrefs.map(eventResponse)) };
+  }
+
+  if (method === "REPORT" && path === CALENDAR_PATH && body.includes("sync-collection")) {
+    const since = Number(body.match(/<d:sync-token>http:\/\/mock\/sync\/(\d+)<\/d:sync-token>/)?.[1]);
+    if (server.rejectSyncTokens || !since) {
+      return {
+        status: 403,
+        body: '<d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>',
+      };
+    }
+    const changed = new Set(server.changes.filter((change) => change.version > since).map((change) => change.href));
+    const responses = Array.from(changed).map((href) =>
+      server.events.has(href)
+        ? propResponse(href, `<d:getetag>"${href}-${server.version}"</d:getetag>`)
+        : `<d:response><d:href>${href}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`
+    );
+    return { status: 207, body: multistatus(responses, `http://mock/sync/${server.version}`) };
+  }
+
+  if (method === "REPORT" && path === CALENDAR_PATH && body.includes("calendar-multiget")) {
+    const hrefs = Array.from(body.matchAll(/<d:href>([^<]+)<\/d:href>/g), (match) => match[1]);
+    return { status: 207, body: multistatus(hrefs.filter((href) => server.events.has(href)).map(eventResponse)) };
+  }
+
+  return { status: 404, body: "" };
+}
+
+const daysFromNow = (days: number) => {
+  const date = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  date.setUTCHours(10, 0, 0, 0);
+  return date;
+};
+
+let httpServer: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  httpServer = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk: Buffer) => (body += chunk.toString()));
+    request.on("end", () => {
+      const path = new URL(request.url ?? "/", "http://localhost").pathname;
+      server.requests.push({ method: request.method ?? "", path, depth: request.headers.depth as string, body });
+
+      if (!AUTH_HEADERS.has(request.headers.authorization ?? "")) {
+        response.writeHead(401, "Unauthorized");
+        response.end();
+        return;
+      }
+
+      const result = handleRequest(request.method ?? "", path, body);
+      response.writeHead(result.status, { "Content-Type": "application/xml; charset=utf-8" });
+      response.end(result.body);
+    });
+  });
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => httpServer.close(resolve));
+});
+
+beforeEach(() => {
+  // No Roam proxy: requests go directly to the mock server
+  vi.stubGlobal("window", {});
+  clearCalendarCache();
+  server.reset();
+  server.put("standup", "Standup", daysFromNow(1));
+  server.put("review", "Review", daysFromNow(3));
+  server.put("old", "Old meeting", daysFromNow(-90));
+  server.requests = [];
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("parseMultistatus", () => {
+  it("should resolve hrefs and keep only found properties", () => {
+    const { responses, syncToken } = parseMultistatus(
+      multistatus([propResponse("/a/b.ics", "<d:getetag>\"1\"</d:getetag>", "<d:displayname/>")], "token-1"),
+      "https://dav.example.com/a/"
+    );
+
+    expect(syncToken).toBe("token-1");
+    expect(responses).toHaveLength(1);
+    expect(responses[0].href).toBe("https://dav.example.com/a/b.ics");
+    expect(Array.from(responses[0].props.keys())).toEqual(["getetag"]);
+  });
+
+  it("should read the status of removed resources", () => {
+    const { responses } = parseMultistatus(
+      multistatus(['<d:response><d:href>/a/gone.ics</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>']),
+      "https://dav.example.com/"
+    );
+    expect(responses[0].status).toBe(404);
+  });
+
+  it("should reject other documents", () => {
+    expect(() => parseMultistatus("<html></html>", "https://dav.example.com/")).toThrow(/multistatus/);
+  });
+});
+
+describe("buildCalendarQuery", () => {
+  it("should filter events by time range", () => {
+    const body = buildCalendarQuery({
+      start: new Date("2025-01-01T00:00:00Z"),
+      end: new Date("2025-02-01T00:00:00Z"),
+    });
+    expect(body).toContain('<c:comp-filter name="VEVENT"><c:time-range start="20250101T000000Z" end="20250201T000000Z"/>');
+  });
+});
+
+describe("discoverCalDavCollections", () => {
+  it("should find the calendars of a principal", async () => {
+    const collections = await discoverCalDavCollections(`${baseUrl}/principals/alice/`, AUTH);
+
+    expect(collections).toEqual([{ url: `${baseUrl}${CALENDAR_PATH}`, displayName: "Work" }]);
+    expect(server.requests.map((request) => `${request.method} ${request.path} ${request.depth}`)).toEqual([
+      "PROPFIND /principals/alice/ 0",
+      "PROPFIND /calendars/alice/ 1",
+    ]);
+  });
+
+  it("should accept a calendar URL", async () => {
+    const collections = await discoverCalDavCollections(`${baseUrl}${CALENDAR_PATH}`, AUTH);
+    expect(collections).toEqual([{ url: `${baseUrl}${CALENDAR_PATH}`, displayName: "Work" }]);
+  });
+
+  it("should fail without credentials", async () => {
+    await expect(discoverCalDavCollections(`${baseUrl}/principals/alice/`)).rejects.toMatchObject({
+      kind: "permanent",
+      status: 401,
+    });
+  });
+});
+
+describe("fetchCalDavCalendar", () => {
+  const timeRange = { start: daysFromNow(-30), end: daysFromNow(30) };
+  const fetchWork = () => fetchCalDavCalendar(`${baseUrl}/principals/alice/`, { auth: AUTH, timeRange });
+  const summaries = (resources: string[]) =>
+    resources.map((resource) => resource.match(/^SUMMARY:(.*)$/m)?.[1]).sort();
+
+  it("should download the events of the time range", async () => {
+    const result = await fetchWork();
+
+    expect(result.changed).toBe(true);
+    expect(summaries(result.resources)).toEqual(["Review", "Standup"]);
+    const query = server.requests.find((request) => request.body.includes("calendar-query"));
+    expect(query?.body).toContain(`start="${formatCalDavDate(timeRange.start)}"`);
+  });
+
+  it("should not download unchanged calendars again", async () => {
+    await fetchWork();
+    server.requests = [];
+
+    const result = await fetchWork();
+    expect(result.changed).toBe(false);
+    expect(summaries(result.resources)).toEqual(["Review", "Standup"]);
+    expect(server.requests.map((request) => request.method)).toEqual(["PROPFIND"]);
+  });
+
+  it("should apply changes since the sync token", async () => {
+    await fetchWork();
+    server.put("standup", "Daily standup", daysFromNow(1));
+    server.put("planning", "Planning", daysFromNow(2));
+    server.remove("review");
+    server.requests = [];
+
+    const result = await fetchWork();
+    expect(result.changed).toBe(true);
+    expect(summaries(result.resources)).toEqual(["Daily standup", "Planning"]);
+    expect(server.requests.some((request) => request.body.includes("sync-collection"))).toBe(true);
+    expect(server.requests.some((request) => request.body.includes("calendar-multiget"))).toBe(true);
+    expect(server.requests.some((request) => request.body.includes("calendar-query"))).toBe(false);
+  });
+
+  it("should download everything again when the sync token is rejected", async () => {
+    await fetchWork();
+    server.put("planning", "Planning", daysFromNow(2));
+    server.rejectSyncTokens = true;
+    server.requests = [];
+
+    const result = await fetchWork();
+    expect(summaries(result.resources)).toEqual(["Planning", "Review", "Standup"]);
+    expect(server.requests.some((request) => request.body.includes("calendar-query"))).toBe(true);
+  });
+
+  it("should discover and download everything again with other credentials", async () => {
+    await fetchWork();
+    server.requests = [];
+
+    const result = await fetchCalDavCalendar(`${baseUrl}/principals/alice/`, { auth: OTHER_AUTH, timeRange });
+    expect(result.changed).toBe(true);
+    expect(server.requests.map((request) => request.path)).toContain("/principals/alice/");
+    expect(server.requests.some((request) => request.body.includes("calendar-query"))).toBe(true);
+  });
+
+  it("should download everything again for another time range", async () => {
+    await fetchWork();
+    server.requests = [];
+
+    const result = await fetchCalDavCalendar(`${baseUrl}/principals/alice/`, {
+      auth: AUTH,
+      timeRange: { start: daysFromNow(-100), end: daysFromNow(30) },
+    });
+    expect(summaries(result.resources)).toEqual(["Old meeting", "Review", "Standup"]);
+  });
+});
+
+describe("fetchAllCalendars with CalDAV sources", () => {
+  const config = () => ({ name: "Work", url: `${baseUrl}/principals/alice/`, source: "caldav" as const, auth: AUTH });
+  const options = { range: { daysPast: 30, daysFuture: 30 } };
+
+  it("should parse CalDAV events like feed events", async () => {
+    const result = await fetchAllCalendars([config()], false, options);
+
+    expect(result.stats).toEqual({ total: 1, changed: 1, cached: 0, failed: 0 });
+    expect(result.calendars[0].events.map((event) => event.summary).sort()).toEqual(["Review", "Standup"]);
+  });
+
+  it("should reuse parsed events when nothing changed", async () => {
+    await fetchAllCalendars([config()], false, options);
+    const result = await fetchAllCalendars([config()], false, options);
+
+    expect(result.stats).toEqual({ total: 1, changed: 0, cached: 1, failed: 0 });
+    expect(result.calendars[0].events).toHaveLength(2);
+  });
+
+  it("should report servers that reject the credentials", async () => {
+    const result = await fetchAllCalendars([{ ...config(), auth: undefined }], false, options);
+
+    expect(result.failures).toEqual([expect.objectContaining({ name: "Work", kind: "permanent", status: 401 })]);
+  });
+});
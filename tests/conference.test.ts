@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { extractConferenceDetails } from "../src/conference";
+
+describe("extractConferenceDetails", () => {
+  it("should return undefined without dial-in information", () => {
+    expect(extractConferenceDetails("Room 4", "Join at https://zoom.us/j/123456789")).toBeUndefined();
+    expect(extractConferenceDetails(null, undefined, "")).toBeUndefined();
+  });
+
+  it("should parse Zoom invites", () => {
+    const description = [
+      "Join Zoom Meeting",
+      "https://us02web.zoom.us/j/85746382910?pwd=abcDEF",
+      "",
+      "Meeting ID: 857 4638 2910",
+      "Passcode: 123456",
+      "",
+      "One tap mobile",
+      "+16465588656,,85746382910#,,,,*123456# US (New York)",
+      "",
+      "Dial by your location",
+      "        +1 646 558 8656 US (New York)",
+      "        +1 669 900 6833 US (San Jose)",
+      "        +44 203 481 5237 United Kingdom",
+      "        +49 69 3807 9883 Germany",
+    ].join("\n");
+
+    expect(extractConferenceDetails("", description)).toEqual({
+      dialIns: ["+16465588656", "+1 669 900 6833", "+44 203 481 5237"],
+      meetingId: "857 4638 2910",
+      passcode: "123456",
+    });
+  });
+
+  it("should parse Microsoft Teams invites", () => {
+    const description = [
+      "Microsoft Teams meeting",
+      "Join on your computer, mobile app or room device",
+      "Meeting ID: 245 104 832 145",
+      "Passcode: Xy7Ab2",
+      "Or call in (audio only)",
+      "+1 323-849-4874,,608219436#   United States, Los Angeles",
+      "Phone Conference ID: 608 219 436#",
+    ].join("\n");
+
+    expect(extractConferenceDetails(description)).toEqual({
+      dialIns: ["+1 323-849-4874"],
+      meetingId: "245 104 832 145",
+      passcode: "Xy7Ab2",
+    });
+  });
+
+  it("should parse Google Meet invites", () => {
+    const description = "Join by phone\n(US) +1 405-686-1245 PIN: 123 456 789#\nMore phone numbers: https://tel.meet/abc";
+
+    expect(extractConferenceDetails(description)).toEqual({
+      dialIns: ["+1 405-686-1245"],
+      meetingId: "123 456 789",
+      passcode: undefined,
+    });
+  });
+
+  it("should parse Webex invites", () => {
+    const description = [
+      "Meeting number (access code): 2551 234 5678",
+      "Meeting password: vQ3Mx",
+      "Join by phone",
+      "+1-415-655-0001 US Toll",
+    ].join("\n");
+
+    expect(extractConferenceDetails(description)).toEqual({
+      dialIns: ["+1-415-655-0001"],
+      meetingId: "2551 234 5678",
+      passcode: "vQ3Mx",
+    });
+  });
+
+  it("should read tel: URIs from HTML descriptions", () => {
+    const html = '<a href="tel:+1-646-558-8656,,85746382910#,,,,*654321#">Dial in</a><br>Call +1 646 558 8656';
+
+    expect(extractConferenceDetails(html)).toEqual({
+      dialIns: ["+1-646-558-8656"],
+      meetingId: "85746382910",
+      passcode: "654321",
+    });
+  });
+
+  it("should not treat URL parameters as passcodes", () => {
+    expect(extractConferenceDetails("https://zoom.us/j/123?pwd=secret")).toBeUndefined();
+  });
+});
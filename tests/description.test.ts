@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { descriptionToBlocks, isHtmlDescription } from "../src/description";
+
+describe("isHtmlDescription", () => {
+  it("should detect HTML markup", () => {
+    expect(isHtmlDescription("Agenda<br>Intro")).toBe(true);
+    expect(isHtmlDescription('<a href="https://example.com">Doc</a>')).toBe(true);
+  });
+
+  it("should not flag plain text", () => {
+    expect(isHtmlDescription("1 < 2 and 3 > 2")).toBe(false);
+    expect(isHtmlDescription("")).toBe(false);
+    expect(isHtmlDescription(undefined)).toBe(false);
+  });
+});
+
+describe("descriptionToBlocks", () => {
+  it("should return no blocks for empty descriptions", () => {
+    expect(descriptionToBlocks("")).toEqual([]);
+    expect(descriptionToBlocks("  \n ")).toEqual([]);
+  });
+
+  it("should keep a single line as one block", () => {
+    expect(descriptionToBlocks("Weekly sync")).toEqual([{ text: "Weekly sync", children: [] }]);
+  });
+
+  it("should split plain text paragraphs and nest list items", () => {
+    const blocks = descriptionToBlocks("Agenda:\n- Intro\n  - Welcome\n- Demo\n\nNotes follow");
+
+    expect(blocks).toEqual([
+      {
+        text: "Agenda:",
+        children: [
+          { text: "Intro", children: [{ text: "Welcome", children: [] }] },
+          { text: "Demo", children: [] },
+        ],
+      },
+      { text: "Notes follow", children: [] },
+    ]);
+  });
+
+  it("should treat numbered lists as list items", () => {
+    expect(descriptionToBlocks("1. First\n2) Second")).toEqual([
+      { text: "First", children: [] },
+      { text: "Second", children: [] },
+    ]);
+  });
+
+  it("should convert HTML links, bold and line breaks", () => {
+    const blocks = descriptionToBlocks(
+      'Join <b>on time</b><br>Doc: <a href="https://example.com/doc?a=1&amp;b=2">spec</a><br/>https://example.com'
+    );
+
+    expect(blocks).toEqual([
+      { text: "Join **on time**", children: [] },
+      { text: "Doc: [spec](https://example.com/doc?a=1&b=2)", children: [] },
+      { text: "https://example.com", children: [] },
+    ]);
+  });
+
+  it("should write links whose text is the URL as bare URLs", () => {
+    const blocks = descriptionToBlocks('<a href="https://example.com">https://example.com</a>');
+
+    expect(blocks).toEqual([{ text: "https://example.com", children: [] }]);
+  });
+
+  it("should turn HTML lists into child blocks", () => {
+    const blocks = descriptionToBlocks(
+      "<p>Agenda</p><ul><li>Intro<ul><li>Welcome</li></ul></li><li>Demo</li></ul><p>Bye&nbsp;all</p>"
+    );
+
+    expect(blocks).toEqual([
+      {
+        text: "Agenda",
+        children: [
+          { text: "Intro", children: [{ text: "Welcome", children: [] }] },
+          { text: "Demo", children: [] },
+        ],
+      },
+      { text: "Bye all", children: [] },
+    ]);
+  });
+
+  it("should prefer the HTML alternative description", () => {
+    const blocks = descriptionToBlocks("Plain agenda", "<html><body><p><i>Rich</i> agenda</p></body></html>");
+
+    expect(blocks).toEqual([{ text: "__Rich__ agenda", children: [] }]);
+  });
+
+  it("should decode numeric entities", () => {
+    expect(descriptionToBlocks("<p>Caf&#233; &#x2014; 5pm</p>")).toEqual([{ text: "Café — 5pm", children: [] }]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { detectCalendarFormat, isSupportedContentType, toICalendarText, xCalToJCal } from "../src/formats";
+import { parseICalComponents } from "../src/ical";
+
+const readFixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf-8");
+
+describe("detectCalendarFormat", () => {
+  it("should use calendar content types", () => {
+    expect(detectCalendarFormat("", "application/calendar+json; charset=utf-8")).toBe("jcal");
+    expect(detectCalendarFormat("", "application/calendar+xml")).toBe("xcal");
+  });
+
+  it("should detect the format from the body otherwise", () => {
+    expect(detectCalendarFormat('  ["vcalendar", [], []]', "text/plain")).toBe("jcal");
+    expect(detectCalendarFormat('\uFEFF<?xml version="1.0"?><icalendar/>')).toBe("xcal");
+    expect(detectCalendarFormat("BEGIN:VCALENDAR\r\nEND:VCALENDAR", "application/json")).toBe("ical");
+  });
+});
+
+describe("isSupportedContentType", () => {
+  it("should accept iCalendar, jCal and xCal media types", () => {
+    expect(isSupportedContentType("text/calendar; charset=utf-8")).toBe(true);
+    expect(isSupportedContentType("application/calendar+json")).toBe(true);
+    expect(isSupportedContentType("application/xml")).toBe(true);
+    expect(isSupportedContentType(undefined)).toBe(true);
+  });
+
+  it("should reject other media types", () => {
+    expect(isSupportedContentType("text/html")).toBe(false);
+  });
+});
+
+describe("xCalToJCal", () => {
+  it("should convert properties, parameters and structured values", () => {
+    const [name, , components] = xCalToJCal(readFixture("team.xml"));
+    const [vevent] = components;
+
+    expect(name).toBe("vcalendar");
+    expect(vevent[1]).toEqual(
+      expect.arrayContaining([
+        ["summary", {}, "text", "Standup & planning"],
+        ["dtstart", { tzid: "America/New_York" }, "date-time", "2025-01-13T09:00:00"],
+        ["rrule", {}, "recur", { freq: "WEEKLY", count: 3, byday: ["MO", "WE"] }],
+        ["categories", {}, "text", "Team", "Daily"],
+        ["attendee", { cn: "Doe, Jane", partstat: "ACCEPTED" }, "cal-address", "mailto:jane@example.com"],
+        ["geo", {}, "float", [40.7, -74]],
+      ])
+    );
+  });
+
+  it("should reject documents without a calendar", () => {
+    expect(() => xCalToJCal("<feed><entry/></feed>")).toThrow("no vcalendar element");
+    expect(() => xCalToJCal("<icalendar><vcalendar></icalendar>")).toThrow();
+  });
+});
+
+describe("toICalendarText", () => {
+  it("should return iCalendar content unchanged", () => {
+    expect(toICalendarText("BEGIN:VCALENDAR", "ical")).toBe("BEGIN:VCALENDAR");
+  });
+
+  it("should report invalid jCal content", () => {
+    expect(() => toICalendarText("{not json", "jcal")).toThrow("Invalid jCal content");
+    expect(() => toICalendarText('{"events": []}', "jcal")).toThrow("expected a vcalendar component");
+  });
+});
+
+describe("parseICalComponents with jCal and xCal", () => {
+  it("should parse jCal feeds into events", async () => {
+    const { events } = await parseICalComponents(readFixture("team.json"), "Team");
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      uid: "review@example.com",
+      summary: "Design review",
+      meetingUrl: "https://meet.google.com/abc-defg-hij",
+      attendees: [{ name: "Bob", email: "bob@example.com", partstat: "TENTATIVE" }],
+    });
+    expect(events[0].dtstart!.toISOString()).toBe("2025-01-15T14:00:00.000Z");
+  });
+
+  it("should parse xCal feeds into events and tasks", async () => {
+    const { events, todos } = await parseICalComponents(readFixture("team.xml"), "Team", {
+      range: { daysPast: 100000, daysFuture: 100000 },
+    });
+
+    expect(events.map((event) => event.dtstart!.toISOString())).toEqual([
+      "2025-01-13T14:00:00.000Z",
+      "2025-01-15T14:00:00.000Z",
+      "2025-01-20T14:00:00.000Z",
+    ]);
+    expect(events[0]).toMatchObject({ summary: "Standup & planning", location: "Room 4", categories: ["Team", "Daily"] });
+    expect(todos).toMatchObject([{ uid: "report@example.com", summary: "Send <weekly> report" }]);
+  });
+
+  it("should report unreadable feeds as fatal errors", async () => {
+    const { diagnostics } = await parseICalComponents("<feed></feed>", "Team");
+
+    expect(diagnostics.fatalError).toContain("no vcalendar element");
+  });
+});
@@ -0,0 +1,366 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  FetchError,
+  applyProxyTemplate,
+  buildAuthorizationHeader,
+  buildTransportUrl,
+  describeAuth,
+  fetchWithRetry,
+  fetchWithTransport,
+  getRetryDelay,
+  getTransportOrder,
+  isRetryableStatus,
+  parseRetryAfter,
+  setTransportSettings,
+} from "../src/http";
+
+describe("isRetryableStatus", () => {
+  it("should retry rate limiting and temporary server errors", () => {
+    for (const status of [408, 429, 500, 502, 503, 504]) {
+      expect(isRetryableStatus(status)).toBe(true);
+    }
+  });
+
+  it("should not retry client errors", () => {
+    for (const status of [400, 401, 403, 404, 410]) {
+      expect(isRetryableStatus(status)).toBe(false);
+    }
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delays in seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120000);
+    expect(parseRetryAfter(" 0 ")).toBe(0);
+  });
+
+  it("should parse HTTP dates", () => {
+    const now = Date.parse("2025-01-10T10:00:00Z");
+    expect(parseRetryAfter("Fri, 10 Jan 2025 10:00:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfter("Fri, 10 Jan 2025 09:00:00 GMT", now)).toBe(0);
+  });
+
+  it("should ignore missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("")).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("getRetryDelay", () => {
+  const options = { baseDelayMs: 1000, maxDelayMs: 10000 };
+
+  it("should double the backoff for each retry, with jitter", () => {
+    expect(getRetryDelay(0, undefined, options, () => 0)).toBe(500);
+    expect(getRetryDelay(0, undefined, options, () => 0.999)).toBe(1000);
+    expect(getRetryDelay(2, undefined, options, () => 0)).toBe(2000);
+  });
+
+  it("should cap the backoff", () => {
+    expect(getRetryDelay(10, undefined, options, () => 0)).toBe(5000);
+    expect(getRetryDelay(10, undefined, options, () => 0.999)).toBeLessThanOrEqual(10000);
+  });
+
+  it("should honor Retry-After", () => {
+    expect(getRetryDelay(0, 5000, options, () => 0)).toBe(5000);
+  });
+
+  it("should give up when Retry-After exceeds the maximum delay", () => {
+    expect(getRetryDelay(0, 60000, options)).toBeUndefined();
+  });
+});
+
+describe("fetchWithRetry", () => {
+  const options = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 };
+
+  const stubResponses = (...responses: (Response | Error)[]) => {
+    const fetchMock = vi.fn(async () => {
+      const next = responses.shift();
+      if (next instanceof Error) throw next;
+      return next ?? new Response("", { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should return the first successful response", async () => {
+    stubResponses(new Response("ok", { status: 200 }));
+
+    const result = await fetchWithRetry("https://example.com/cal.ics", {}, options);
+    expect(result.attempts).toBe(1);
+    expect(result.errors).toEqual([]);
+    expect(result.body).toBe("ok");
+  });
+
+  it("should accept 304 Not Modified", async () => {
+    stubResponses(new Response(null, { status: 304 }));
+
+    const result = await fetchWithRetry("https://example.com/cal.ics", {}, options);
+    expect(result.response.status).toBe(304);
+  });
+
+  it("should retry transient errors until a request succeeds", async () => {
+    const fetchMock = stubResponses(
+      new Response("", { status: 429, statusText: "Too Many Requests" }),
+      new Response("", { status: 503, statusText: "Service Unavailable" }),
+      new Response("ok", { status: 200 })
+    );
+
+    const result = await fetchWithRetry("https://example.com/cal.ics", {}, options);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(result.attempts).toBe(3);
+    expect(result.errors).toEqual([
+      { url: "https://example.com/cal.ics", kind: "retryable", status: 429, message: "HTTP 429: Too Many Requests" },
+      { url: "https://example.com/cal.ics", kind: "retryable", status: 503, message: "HTTP 503: Service Unavailable" },
+    ]);
+  });
+
+  it("should retry network errors until a request succeeds", async () => {
+    const fetchMock = stubResponses(new TypeError("Failed to fetch"), new Response("ok", { status: 200 }));
+
+    const result = await fetchWithRetry("https://example.com/cal.ics", {}, options);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.body).toBe("ok");
+    expect(result.errors).toEqual([
+      { url: "https://example.com/cal.ics", kind: "retryable", message: "Failed to fetch" },
+    ]);
+  });
+
+  it("should give up on network errors once retries are exhausted", async () => {
+    const fetchMock = stubResponses(...Array.from({ length: 3 }, () => new TypeError("Failed to fetch")));
+
+    const error = await fetchWithRetry("https://example.com/cal.ics", {}, options).catch((e: unknown) => e);
+    expect(fetchMock).toHaveBeenCalledTimes(options.maxRetries + 1);
+    expect(error).toMatchObject({ kind: "retryable", attempts: options.maxRetries + 1, message: "Failed to fetch" });
+  });
+
+  it("should not retry permanent errors", async () => {
+    const fetchMock = stubResponses(new Response("", { status: 401, statusText: "Unauthorized" }));
+
+    const error = await fetchWithRetry("https://example.com/cal.ics", {}, options).catch((e: unknown) => e);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error).toMatchObject({ kind: "permanent", status: 401, attempts: 1, message: "HTTP 401: Unauthorized" });
+  });
+
+  it("should fail after the last retry", async () => {
+    const fetchMock = stubResponses(
+      new Response("", { status: 502 }),
+      new Response("", { status: 503 }),
+      new Response("", { status: 503 }),
+      new Response("ok", { status: 200 })
+    );
+
+    const error = await fetchWithRetry("https://example.com/cal.ics", {}, options).catch((e: unknown) => e);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(error).toMatchObject({ kind: "retryable", status: 503, attempts: 3 });
+  });
+
+  it("should abort attempts that exceed the timeout", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+          })
+      )
+    );
+
+    const error = await fetchWithRetry("https://example.com/cal.ics", {}, { ...options, timeoutMs: 5 }).catch(
+      (e: unknown) => e
+    );
+    expect(error).toMatchObject({ kind: "retryable", attempts: 3, message: "Request timed out (0.005s)" });
+  });
+
+  it("should abort responses whose body stalls", async () => {
+    const server = createServer((_request, response) => {
+      response.writeHead(200, { "Content-Type": "text/calendar" });
+      response.write("BEGIN:VCALENDAR\r\n");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const error = await fetchWithRetry(`http://127.0.0.1:${port}/cal.ics`, {}, { maxRetries: 0, timeoutMs: 100 }).catch(
+        (e: unknown) => e
+      );
+      expect(error).toMatchObject({ kind: "retryable", attempts: 1, message: "Request timed out (0.1s)" });
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("should stop when the server asks to wait too long", async () => {
+    const fetchMock = stubResponses(new Response("", { status: 429, headers: { "Retry-After": "3600" } }));
+
+    const error = await fetchWithRetry("https://example.com/cal.ics", {}, options).catch((e: unknown) => e);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(error).toMatchObject({ kind: "retryable", status: 429, attempts: 1 });
+  });
+});
+
+describe("applyProxyTemplate", () => {
+  it("should replace {url} with the encoded URL", () => {
+    expect(applyProxyTemplate("https://proxy.example/?url={url}", "https://example.com/a b.ics?x=1")).toBe(
+      "https://proxy.example/?url=https%3A%2F%2Fexample.com%2Fa%20b.ics%3Fx%3D1"
+    );
+  });
+
+  it("should append the URL when there is no placeholder", () => {
+    expect(applyProxyTemplate("https://proxy.example/", "https://example.com/cal.ics")).toBe(
+      "https://proxy.example/https://example.com/cal.ics"
+    );
+  });
+});
+
+describe("transports", () => {
+  const settings = { transport: "direct" as const, proxyUrlTemplate: "https://proxy.example/?url={url}" };
+  const url = "https://example.com/cal.ics";
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setTransportSettings({ transport: "roam-proxy", proxyUrlTemplate: "" });
+  });
+
+  it("should try the preferred transport first", () => {
+    expect(getTransportOrder(settings)).toEqual(["direct", "roam-proxy", "custom-proxy"]);
+    expect(getTransportOrder({ ...settings, transport: "custom-proxy" })).toEqual([
+      "custom-proxy",
+      "roam-proxy",
+      "direct",
+    ]);
+  });
+
+  it("should build the URL of each transport", () => {
+    vi.stubGlobal("window", { roamAlphaAPI: { constants: { corsAnywhereProxyUrl: "https://roam-proxy.example" } } });
+
+    expect(buildTransportUrl("roam-proxy", url, settings)).toBe(`https://roam-proxy.example/${url}`);
+    expect(buildTransportUrl("custom-proxy", url, settings)).toBe(
+      `https://proxy.example/?url=${encodeURIComponent(url)}`
+    );
+    expect(buildTransportUrl("direct", url, settings)).toBe(url);
+  });
+
+  it("should report unavailable transports", () => {
+    vi.stubGlobal("window", {});
+
+    expect(buildTransportUrl("roam-proxy", url, settings)).toBeUndefined();
+    expect(buildTransportUrl("custom-proxy", url, { ...settings, proxyUrlTemplate: " " })).toBeUndefined();
+  });
+
+  it("should fall back to the next transport when one keeps failing", async () => {
+    vi.stubGlobal("window", { roamAlphaAPI: { constants: { corsAnywhereProxyUrl: "https://roam-proxy.example" } } });
+    const fetchMock = vi.fn(async (requestUrl: string) =>
+      requestUrl.startsWith("https://roam-proxy.example")
+        ? new Response("", { status: 502, statusText: "Bad Gateway" })
+        : new Response("ok", { status: 200 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    setTransportSettings({ transport: "roam-proxy", proxyUrlTemplate: "" });
+
+    const result = await fetchWithTransport(url, {}, { maxRetries: 1, baseDelayMs: 1 });
+    expect(result.transport).toBe("direct");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(result.errors).toEqual([
+      { url, transport: "roam-proxy", kind: "retryable", status: 502, message: "HTTP 502: Bad Gateway" },
+      { url, transport: "roam-proxy", kind: "retryable", status: 502, message: "HTTP 502: Bad Gateway" },
+    ]);
+  });
+
+  it("should skip unavailable transports", async () => {
+    vi.stubGlobal("window", {});
+    const fetchMock = vi.fn(async () => new Response("ok", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await fetchWithTransport(url);
+    expect(result.transport).toBe("direct");
+    expect(fetchMock).toHaveBeenCalledWith(url, expect.anything());
+  });
+
+  it("should fall back when a proxy refuses the request", async () => {
+    vi.stubGlobal("window", { roamAlphaAPI: { constants: { corsAnywhereProxyUrl: "https://roam-proxy.example" } } });
+    const fetchMock = vi.fn(async (requestUrl: string) =>
+      requestUrl.startsWith("https://roam-proxy.example")
+        ? new Response("", { status: 403, statusText: "Forbidden" })
+        : new Response("ok", { status: 200 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await fetchWithTransport(url, {}, { maxRetries: 1, baseDelayMs: 1 });
+    expect(result.transport).toBe("direct");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should try the next transport when a request stays blocked", async () => {
+    vi.stubGlobal("window", { roamAlphaAPI: { constants: { corsAnywhereProxyUrl: "https://roam-proxy.example" } } });
+    const fetchMock = vi.fn(async (requestUrl: string) => {
+      if (requestUrl === url) throw new TypeError("Failed to fetch");
+      return new Response("", { status: 404, statusText: "Not Found" });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    setTransportSettings(settings);
+
+    const error = await fetchWithTransport(url, {}, { maxRetries: 1, baseDelayMs: 1 }).catch((e: unknown) => e);
+    // Direct twice (one retry), then each proxy once (404 is not retried)
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(error).toMatchObject({ kind: "permanent", status: 404, attempts: 4 });
+  });
+
+  it("should not fall back on errors of the server itself", async () => {
+    vi.stubGlobal("window", {});
+    const fetchMock = vi.fn(async () => new Response("", { status: 404, statusText: "Not Found" }));
+    vi.stubGlobal("fetch", fetchMock);
+    setTransportSettings(settings);
+
+    const error = await fetchWithTransport(url).catch((e: unknown) => e);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error).toMatchObject({ kind: "permanent", status: 404 });
+  });
+});
+
+describe("authentication", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should build Basic and Bearer headers", () => {
+    expect(buildAuthorizationHeader({ type: "basic", username: "alice", password: "s3cret" })).toBe(
+      "Basic YWxpY2U6czNjcmV0"
+    );
+    expect(buildAuthorizationHeader({ type: "basic", username: "zoë", password: "pässword" })).toBe(
+      `Basic ${Buffer.from("zoë:pässword", "utf-8").toString("base64")}`
+    );
+    expect(buildAuthorizationHeader({ type: "bearer", token: "abc.def" })).toBe("Bearer abc.def");
+  });
+
+  it("should describe credentials without secrets", () => {
+    expect(describeAuth(undefined)).toBe("none");
+    expect(describeAuth({ type: "basic", username: "alice", password: "s3cret" })).toBe("basic (alice, ****)");
+    expect(describeAuth({ type: "bearer", token: "abc.def" })).toBe("bearer (****)");
+  });
+
+  it("should send the Authorization header with the other headers", async () => {
+    vi.stubGlobal("window", {});
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response("ok", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await fetchWithTransport(
+      "https://dav.example.com/cal.ics",
+      { headers: { "If-None-Match": '"v1"' } },
+      { auth: { type: "bearer", token: "abc.def" } }
+    );
+
+    const headers = new Headers(fetchMock.mock.calls[0][1].headers);
+    expect(headers.get("Authorization")).toBe("Bearer abc.def");
+    expect(headers.get("If-None-Match")).toBe('"v1"');
+  });
+});
@@ -1,15 +1,32 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFileSync } from "node:fs";
 import {
   extractMeetingUrl,
   extractMeetingUrlWithService,
+  extractAllMeetingUrls,
   formatRoamDate,
+  formatTime,
+  formatDuration,
   safeText,
   hashEventId,
   sanitizeEventId,
   sortEventsByDateDescending,
   shouldExcludeEvent,
   isEventInDateRange,
+  getDateRangeBounds,
+  parseICalContent,
+  getEventInstanceId,
+  shouldKeepEventForParticipant,
+  filterEventsByParticipation,
+  parseICalComponents,
+  isTodoInDateRange,
+  redactPrivateEvent,
+  redactPrivateTodo,
+  resolveFetchUrls,
+  fetchAllCalendars,
+  clearCalendarCache,
   type ICalEvent,
+  type ICalTodo,
   type DateRangeConfig,
 } from "../src/ical";
 
@@ -230,6 +247,13 @@ describe("formatRoamDate", () => {
     expect(formatRoamDate(new Date(2025, 0, 23))).toBe("January 23rd, 2025");
   });
 
+  it("should use the calendar day of the given timezone", () => {
+    const date = new Date(Date.UTC(2025, 0, 2, 23, 30));
+    expect(formatRoamDate(date, "UTC")).toBe("January 2nd, 2025");
+    expect(formatRoamDate(date, "Asia/Tokyo")).toBe("January 3rd, 2025");
+    expect(formatRoamDate(date, "America/Los_Angeles")).toBe("January 2nd, 2025");
+  });
+
   it("should format all months correctly", () => {
     const months = [
       "January", "February", "March", "April", "May", "June",
@@ -242,6 +266,48 @@ describe("formatRoamDate", () => {
   });
 });
 
+describe("formatTime", () => {
+  const date = new Date(Date.UTC(2025, 0, 2, 14, 5));
+
+  it("should format 24-hour times", () => {
+    expect(formatTime(date, "24h", "UTC")).toBe("14:05");
+    expect(formatTime(new Date(Date.UTC(2025, 0, 2, 9, 0)), "24h", "UTC")).toBe("09:00");
+  });
+
+  it("should format 12-hour times", () => {
+    expect(formatTime(date, "12h", "UTC")).toBe("2:05 PM");
+    expect(formatTime(new Date(Date.UTC(2025, 0, 2, 0, 30)), "12h", "UTC")).toBe("12:30 AM");
+    expect(formatTime(new Date(Date.UTC(2025, 0, 2, 12, 0)), "12h", "UTC")).toBe("12:00 PM");
+  });
+
+  it("should use the wall-clock time of the timezone", () => {
+    expect(formatTime(date, "24h", "America/New_York")).toBe("09:05");
+  });
+
+  it("should default to local 24-hour time", () => {
+    expect(formatTime(new Date(2025, 0, 2, 8, 15))).toBe("08:15");
+  });
+});
+
+describe("formatDuration", () => {
+  it("should format minutes", () => {
+    expect(formatDuration(45 * 60 * 1000)).toBe("45m");
+  });
+
+  it("should format hours and minutes", () => {
+    expect(formatDuration(90 * 60 * 1000)).toBe("1h 30m");
+    expect(formatDuration(2 * 3600 * 1000)).toBe("2h");
+  });
+
+  it("should format days", () => {
+    expect(formatDuration(26 * 3600 * 1000)).toBe("1d 2h");
+  });
+
+  it("should format zero durations", () => {
+    expect(formatDuration(0)).toBe("0m");
+  });
+});
+
 describe("safeText", () => {
   it("should return empty string for null", () => {
     expect(safeText(null)).toBe("");
@@ -345,6 +411,28 @@ describe("sortEventsByDateDescending", () => {
     expect(sorted[0].summary).toBe("Only end");
     expect(sorted[1].summary).toBe("Has start");
   });
+
+  it("should order same-day events by time with all-day events first", () => {
+    const events: ICalEvent[] = [
+      { uid: "1", summary: "Afternoon", dtstart: new Date(2025, 0, 2, 15), dtend: null, description: "", location: "", url: "", attendees: [] },
+      { uid: "2", summary: "Next day", dtstart: new Date(2025, 0, 3, 9), dtend: null, description: "", location: "", url: "", attendees: [] },
+      { uid: "3", summary: "Morning", dtstart: new Date(2025, 0, 2, 9), dtend: null, description: "", location: "", url: "", attendees: [] },
+      { uid: "4", summary: "All day", dtstart: new Date(2025, 0, 2), dtend: null, allDay: true, description: "", location: "", url: "", attendees: [] },
+    ];
+
+    const sorted = sortEventsByDateDescending(events);
+    expect(sorted.map((e) => e.summary)).toEqual(["Next day", "All day", "Morning", "Afternoon"]);
+  });
+
+  it("should group days in the given timezone", () => {
+    const events: ICalEvent[] = [
+      { uid: "1", summary: "Late", dtstart: new Date(Date.UTC(2025, 0, 2, 23, 30)), dtend: null, description: "", location: "", url: "", attendees: [] },
+      { uid: "2", summary: "Early", dtstart: new Date(Date.UTC(2025, 0, 3, 1)), dtend: null, description: "", location: "", url: "", attendees: [] },
+    ];
+
+    expect(sortEventsByDateDescending(events, "UTC").map((e) => e.summary)).toEqual(["Early", "Late"]);
+    expect(sortEventsByDateDescending(events, "Asia/Tokyo").map((e) => e.summary)).toEqual(["Late", "Early"]);
+  });
 });
 
 describe("shouldExcludeEvent", () => {
@@ -450,3 +538,1144 @@ describe("isEventInDateRange", () => {
     expect(isEventInDateRange(event, config)).toBe(true);
   });
 });
+
+describe("getDateRangeBounds", () => {
+  it("should span from start of the past day to the end of the future day", () => {
+    const { start, end } = getDateRangeBounds({ daysPast: 1, daysFuture: 1 });
+    const today = new Date();
+    const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+    expect(start).toEqual(new Date(startOfToday.getFullYear(), startOfToday.getMonth(), startOfToday.getDate() - 1));
+    expect(end).toEqual(new Date(startOfToday.getFullYear(), startOfToday.getMonth(), startOfToday.getDate() + 2));
+  });
+});
+
+/**
+ * Formats a local date as a floating iCal date-time at noon (e.g. 20250102T120000).
+ */
+function toICalLocalNoon(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T120000`;
+}
+
+function daysFromToday(offset: number): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+}
+
+function buildCalendar(...vevents: string[][]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//test//EN", ...vevents.flat(), "END:VCALENDAR"].join("\r\n");
+}
+
+describe("parseICalContent recurrence expansion", () => {
+  const range: DateRangeConfig = { daysPast: 3, daysFuture: 3 };
+
+  const dailySeries = (extra: string[] = []) => [
+    "BEGIN:VEVENT",
+    "UID:daily-standup",
+    "SUMMARY:Standup",
+    `DTSTART:${toICalLocalNoon(daysFromToday(-400))}`,
+    `DTEND:${toICalLocalNoon(daysFromToday(-400)).replace("T120000", "T123000")}`,
+    "RRULE:FREQ=DAILY",
+    ...extra,
+    "END:VEVENT",
+  ];
+
+  it("should materialize every occurrence inside the range", async () => {
+    const events = await parseICalContent(buildCalendar(dailySeries()), "Work", { range });
+
+    expect(events).toHaveLength(7);
+    for (const event of events) {
+      expect(event.uid).toBe("daily-standup");
+      expect(isEventInDateRange(event, range)).toBe(true);
+      expect(event.dtend!.getTime() - event.dtstart!.getTime()).toBe(30 * 60 * 1000);
+    }
+    expect(new Set(events.map((e) => e.recurrenceId)).size).toBe(7);
+  });
+
+  it("should drop EXDATE occurrences and add RDATE occurrences", async () => {
+    const content = buildCalendar(
+      dailySeries([
+        `EXDATE:${toICalLocalNoon(daysFromToday(0))}`,
+        `RDATE:${toICalLocalNoon(daysFromToday(1)).replace("T120000", "T180000")}`,
+      ])
+    );
+    const events = await parseICalContent(content, "Work", { range });
+
+    expect(events).toHaveLength(7);
+    const starts = events.map((e) => e.dtstart!.getTime());
+    expect(starts).not.toContain(new Date(daysFromToday(0).getTime() + 12 * 3600 * 1000).getTime());
+    expect(starts).toContain(new Date(daysFromToday(1).getTime() + 18 * 3600 * 1000).getTime());
+  });
+
+  it("should reach the range for daily series started decades ago", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:daily-since-1995",
+      "SUMMARY:Backup",
+      "DTSTART:19950102T120000",
+      "RRULE:FREQ=DAILY",
+      "END:VEVENT",
+    ]);
+    const { events, diagnostics } = await parseICalComponents(content, "Work", { range });
+
+    expect(events).toHaveLength(7);
+    expect(events.every((e) => e.recurrenceId?.endsWith("T120000"))).toBe(true);
+    expect(diagnostics.warnings).toEqual([]);
+  });
+
+  it("should keep the weeks of a biweekly series started decades ago", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:biweekly-since-1995",
+      "SUMMARY:Review",
+      "DTSTART:19950102T120000",
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH",
+      "END:VEVENT",
+    ]);
+    const { events } = await parseICalComponents(content, "Work", { range: { daysPast: 30, daysFuture: 30 } });
+
+    const weekMs = 7 * 24 * 60 * 60 * 1000;
+    const firstMonday = Date.UTC(1995, 0, 2);
+    expect(events.length).toBeGreaterThan(0);
+    for (const event of events) {
+      const [, year, month, day] = event.recurrenceId!.match(/^(\d{4})(\d{2})(\d{2})/)!.map(Number);
+      const weeks = Math.floor((Date.UTC(year, month - 1, day) - firstMonday) / weekMs);
+      expect(weeks % 2).toBe(0);
+    }
+  });
+
+  it("should reach the range for hourly series", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:hourly-since-2024",
+      "SUMMARY:Check",
+      "DTSTART:20240101T000000Z",
+      "RRULE:FREQ=HOURLY",
+      "END:VEVENT",
+    ]);
+    const { events, diagnostics } = await parseICalComponents(content, "Work", { range });
+
+    const { start, end } = getDateRangeBounds(range);
+    expect(events).toHaveLength(Math.round((end.getTime() - start.getTime()) / (60 * 60 * 1000)));
+    expect(diagnostics.warnings).toEqual([]);
+  });
+
+  it("should report series cut off before the end of the range", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:minutely-count",
+      "SUMMARY:Ping",
+      "DTSTART:20240101T000000Z",
+      "RRULE:FREQ=MINUTELY;COUNT=10000000",
+      "END:VEVENT",
+    ]);
+    const { events, diagnostics } = await parseICalComponents(content, "Work", { range });
+
+    expect(events).toEqual([]);
+    expect(diagnostics.warnings).toEqual([
+      expect.objectContaining({ uid: "minutely-count", reason: "recurrence-limit" }),
+    ]);
+  });
+
+  it("should keep only the first occurrence when no range is given", async () => {
+    const events = await parseICalContent(buildCalendar(dailySeries()), "Work");
+
+    expect(events).toHaveLength(1);
+    expect(events[0].recurrenceId).toBeUndefined();
+  });
+
+  it("should leave non-recurring events untouched", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:single",
+      "SUMMARY:One-off",
+      `DTSTART:${toICalLocalNoon(daysFromToday(-100))}`,
+      "END:VEVENT",
+    ]);
+    const events = await parseICalContent(content, "Work", { range });
+
+    expect(events).toHaveLength(1);
+    expect(events[0].summary).toBe("One-off");
+  });
+});
+
+describe("getEventInstanceId", () => {
+  it("should return the UID for non-recurring events", () => {
+    expect(getEventInstanceId("abc@example.com")).toBe("abc@example.com");
+  });
+
+  it("should combine UID and recurrence id for occurrences", () => {
+    expect(getEventInstanceId("abc@example.com", "20250102T100000Z")).toBe("abc@example.com|20250102T100000Z");
+  });
+});
+
+describe("parseICalContent RECURRENCE-ID overrides", () => {
+  const range: DateRangeConfig = { daysPast: 3, daysFuture: 3 };
+  const seriesStart = toICalLocalNoon(daysFromToday(-30));
+  const master = [
+    "BEGIN:VEVENT",
+    "UID:weekly-sync",
+    "SUMMARY:Sync",
+    `DTSTART:${seriesStart}`,
+    "RRULE:FREQ=DAILY",
+    "END:VEVENT",
+  ];
+
+  it("should replace the matching occurrence with the override", async () => {
+    const todaySlot = toICalLocalNoon(daysFromToday(0));
+    const override = [
+      "BEGIN:VEVENT",
+      "UID:weekly-sync",
+      `RECURRENCE-ID:${todaySlot}`,
+      "SUMMARY:Sync (moved)",
+      `DTSTART:${todaySlot.replace("T120000", "T150000")}`,
+      "END:VEVENT",
+    ];
+    const events = await parseICalContent(buildCalendar(master, override), "Work", { range });
+
+    expect(events).toHaveLength(7);
+    const moved = events.filter((e) => e.recurrenceId === todaySlot);
+    expect(moved).toHaveLength(1);
+    expect(moved[0].summary).toBe("Sync (moved)");
+    expect(moved[0].dtstart).toEqual(new Date(daysFromToday(0).getTime() + 15 * 3600 * 1000));
+    expect(events.filter((e) => e.summary === "Sync")).toHaveLength(6);
+  });
+
+  it("should not relate overrides to a master with a different UID", async () => {
+    const override = [
+      "BEGIN:VEVENT",
+      "UID:other-series",
+      `RECURRENCE-ID:${toICalLocalNoon(daysFromToday(0))}`,
+      "SUMMARY:Other",
+      `DTSTART:${toICalLocalNoon(daysFromToday(1))}`,
+      "END:VEVENT",
+    ];
+    const events = await parseICalContent(buildCalendar(master, override), "Work", { range });
+
+    expect(events.filter((e) => e.uid === "weekly-sync")).toHaveLength(7);
+    expect(events.filter((e) => e.uid === "other-series")).toHaveLength(1);
+  });
+
+  it("should keep overrides moved into the range from outside of it", async () => {
+    const oldSlot = toICalLocalNoon(daysFromToday(-20));
+    const override = [
+      "BEGIN:VEVENT",
+      "UID:weekly-sync",
+      `RECURRENCE-ID:${oldSlot}`,
+      "SUMMARY:Rescheduled",
+      `DTSTART:${toICalLocalNoon(daysFromToday(2)).replace("T120000", "T090000")}`,
+      "END:VEVENT",
+    ];
+    const events = await parseICalContent(buildCalendar(master, override), "Work", { range });
+
+    expect(events).toHaveLength(8);
+    const rescheduled = events.find((e) => e.summary === "Rescheduled");
+    expect(rescheduled?.recurrenceId).toBe(oldSlot);
+  });
+
+  it("should keep later occurrences when an override is moved past the range", async () => {
+    const todaySlot = toICalLocalNoon(daysFromToday(0));
+    const override = [
+      "BEGIN:VEVENT",
+      "UID:weekly-sync",
+      `RECURRENCE-ID:${todaySlot}`,
+      "SUMMARY:Postponed",
+      `DTSTART:${toICalLocalNoon(daysFromToday(10))}`,
+      "END:VEVENT",
+    ];
+    const events = await parseICalContent(buildCalendar(master, override), "Work", { range });
+
+    expect(events).toHaveLength(6);
+    expect(events.some((e) => e.summary === "Postponed")).toBe(false);
+    expect(events.map((e) => e.recurrenceId)).toContain(toICalLocalNoon(daysFromToday(3)));
+  });
+
+  it("should give every occurrence a distinct instance id", async () => {
+    const events = await parseICalContent(buildCalendar(master), "Work", { range });
+    const ids = events.map((e) => getEventInstanceId(e.uid, e.recurrenceId));
+
+    expect(new Set(ids).size).toBe(events.length);
+  });
+});
+
+describe("parseICalContent timezones", () => {
+  const vtimezone = [
+    "BEGIN:VTIMEZONE",
+    "TZID:Custom/Berlin",
+    "BEGIN:STANDARD",
+    "DTSTART:19701025T030000",
+    "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+    "TZOFFSETFROM:+0200",
+    "TZOFFSETTO:+0100",
+    "END:STANDARD",
+    "BEGIN:DAYLIGHT",
+    "DTSTART:19700329T020000",
+    "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+    "TZOFFSETFROM:+0100",
+    "TZOFFSETTO:+0200",
+    "END:DAYLIGHT",
+    "END:VTIMEZONE",
+  ];
+
+  const eventWith = (uid: string, ...dates: string[]) => [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    "SUMMARY:Event",
+    ...dates,
+    "END:VEVENT",
+  ];
+
+  it("should resolve TZID references through VTIMEZONE definitions", async () => {
+    const content = buildCalendar(vtimezone, eventWith("tz", "DTSTART;TZID=Custom/Berlin:20250115T100000"));
+    const [event] = await parseICalContent(content, "Work");
+
+    expect(event.dtstart!.toISOString()).toBe("2025-01-15T09:00:00.000Z");
+  });
+
+  it("should resolve TZIDs with the definitions of each calendar", async () => {
+    const fixedZone = [
+      "BEGIN:VTIMEZONE",
+      "TZID:Custom/Berlin",
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      "TZOFFSETFROM:+0300",
+      "TZOFFSETTO:+0300",
+      "END:STANDARD",
+      "END:VTIMEZONE",
+    ];
+    const event = eventWith("tz", "DTSTART;TZID=Custom/Berlin:20250115T100000");
+
+    const [first] = await parseICalContent(buildCalendar(vtimezone, event), "Work");
+    const [second] = await parseICalContent(buildCalendar(fixedZone, event), "Other");
+    const undefinedZone = await parseICalComponents(buildCalendar(event), "Third", { timeZone: "UTC" });
+
+    expect(first.dtstart!.toISOString()).toBe("2025-01-15T09:00:00.000Z");
+    expect(second.dtstart!.toISOString()).toBe("2025-01-15T07:00:00.000Z");
+    expect(undefinedZone.events[0].dtstart!.toISOString()).toBe("2025-01-15T10:00:00.000Z");
+    expect(undefinedZone.diagnostics.warnings.map((issue) => issue.reason)).toEqual(["unknown-tzid"]);
+  });
+
+  it("should resolve IANA TZIDs without a VTIMEZONE", async () => {
+    const content = buildCalendar(eventWith("iana", "DTSTART;TZID=America/New_York:20250115T100000"));
+    const [event] = await parseICalContent(content, "Work", { timeZone: "Asia/Tokyo" });
+
+    expect(event.dtstart!.toISOString()).toBe("2025-01-15T15:00:00.000Z");
+  });
+
+  it("should keep UTC times as absolute instants", async () => {
+    const content = buildCalendar(eventWith("utc", "DTSTART:20250102T233000Z"));
+    const [event] = await parseICalContent(content, "Work", { timeZone: "Asia/Tokyo" });
+
+    expect(event.dtstart!.toISOString()).toBe("2025-01-02T23:30:00.000Z");
+    expect(formatRoamDate(event.dtstart!, "Asia/Tokyo")).toBe("January 3rd, 2025");
+  });
+
+  it("should interpret floating times in the display timezone", async () => {
+    const content = buildCalendar(eventWith("floating", "DTSTART:20250115T100000"));
+    const [event] = await parseICalContent(content, "Work", { timeZone: "America/New_York" });
+
+    expect(event.dtstart!.toISOString()).toBe("2025-01-15T15:00:00.000Z");
+  });
+
+  it("should keep all-day dates on the same calendar day in the display timezone", async () => {
+    const content = buildCalendar(eventWith("allday", "DTSTART;VALUE=DATE:20250115", "DTEND;VALUE=DATE:20250116"));
+    const [event] = await parseICalContent(content, "Work", { timeZone: "Pacific/Auckland" });
+
+    expect(formatRoamDate(event.dtstart!, "Pacific/Auckland")).toBe("January 15th, 2025");
+    expect(formatRoamDate(event.dtend!, "Pacific/Auckland")).toBe("January 16th, 2025");
+    expect(event.allDay).toBe(true);
+  });
+
+  it("should not flag timed events as all-day", async () => {
+    const content = buildCalendar(eventWith("timed", "DTSTART:20250115T100000Z"));
+    const [event] = await parseICalContent(content, "Work");
+
+    expect(event.allDay).toBe(false);
+  });
+});
+
+describe("getDateRangeBounds with timezone", () => {
+  it("should start the range at midnight in the timezone", () => {
+    const { start, end } = getDateRangeBounds({ daysPast: 0, daysFuture: 0, timeZone: "Asia/Tokyo" });
+
+    expect(formatRoamDate(start, "Asia/Tokyo")).toBe(formatRoamDate(new Date(), "Asia/Tokyo"));
+    expect(end.getTime() - start.getTime()).toBe(24 * 3600 * 1000);
+  });
+});
+
+describe("parseICalContent status and transparency", () => {
+  const eventWith = (...lines: string[]) => [
+    "BEGIN:VEVENT",
+    "UID:status-event",
+    "SUMMARY:Planning",
+    "DTSTART:20250115T100000Z",
+    ...lines,
+    "END:VEVENT",
+  ];
+
+  it("should parse STATUS and TRANSP", async () => {
+    const [event] = await parseICalContent(buildCalendar(eventWith("STATUS:CANCELLED", "TRANSP:TRANSPARENT")), "Work");
+
+    expect(event.status).toBe("CANCELLED");
+    expect(event.transparency).toBe("TRANSPARENT");
+  });
+
+  it("should normalize case and ignore unknown values", async () => {
+    const [tentative] = await parseICalContent(buildCalendar(eventWith("STATUS:tentative")), "Work");
+    const [unknown] = await parseICalContent(buildCalendar(eventWith("STATUS:X-POSTPONED")), "Work");
+
+    expect(tentative.status).toBe("TENTATIVE");
+    expect(unknown.status).toBeUndefined();
+    expect(unknown.transparency).toBeUndefined();
+  });
+
+  it("should take the status of cancelled occurrences from their override", async () => {
+    const range: DateRangeConfig = { daysPast: 1, daysFuture: 1 };
+    const todaySlot = toICalLocalNoon(daysFromToday(0));
+    const content = buildCalendar(
+      [
+        "BEGIN:VEVENT",
+        "UID:series",
+        "SUMMARY:Series",
+        `DTSTART:${toICalLocalNoon(daysFromToday(-10))}`,
+        "RRULE:FREQ=DAILY",
+        "END:VEVENT",
+      ],
+      ["BEGIN:VEVENT", "UID:series", `RECURRENCE-ID:${todaySlot}`, `DTSTART:${todaySlot}`, "STATUS:CANCELLED", "END:VEVENT"]
+    );
+    const events = await parseICalContent(content, "Work", { range });
+
+    expect(events.filter((e) => e.status === "CANCELLED").map((e) => e.recurrenceId)).toEqual([todaySlot]);
+  });
+});
+
+describe("parseICalContent organizer and attendees", () => {
+  const content = buildCalendar([
+    "BEGIN:VEVENT",
+    "UID:meeting",
+    "SUMMARY:Design review",
+    "DTSTART:20250115T100000Z",
+    "ORGANIZER;CN=Ana Souza:mailto:ana@example.com",
+    "ATTENDEE;CN=Bob;PARTSTAT=ACCEPTED;ROLE=REQ-PARTICIPANT;RSVP=TRUE:mailto:bob@example.com",
+    "ATTENDEE;PARTSTAT=declined;ROLE=OPT-PARTICIPANT:MAILTO:carol@example.com",
+    "ATTENDEE;PARTSTAT=X-UNKNOWN:mailto:dan@example.com",
+    "END:VEVENT",
+  ]);
+
+  it("should parse the organizer", async () => {
+    const [event] = await parseICalContent(content, "Work");
+
+    expect(event.organizer).toEqual({ name: "Ana Souza", email: "ana@example.com" });
+  });
+
+  it("should parse attendee participation status, role and RSVP", async () => {
+    const [event] = await parseICalContent(content, "Work");
+
+    expect(event.attendees).toEqual([
+      { name: "Bob", email: "bob@example.com", partstat: "ACCEPTED", role: "REQ-PARTICIPANT", rsvp: true },
+      { name: "", email: "carol@example.com", partstat: "DECLINED", role: "OPT-PARTICIPANT" },
+      { name: "", email: "dan@example.com" },
+    ]);
+  });
+});
+
+describe("shouldKeepEventForParticipant", () => {
+  const buildEvent = (overrides: Partial<ICalEvent>): ICalEvent => ({
+    uid: "1",
+    summary: "Meeting",
+    dtstart: new Date(),
+    dtend: null,
+    description: "",
+    location: "",
+    url: "",
+    attendees: [],
+    ...overrides,
+  });
+  const config = { myEmails: ["me@example.com"], onlyMine: false };
+
+  it("should drop events I declined", () => {
+    const event = buildEvent({
+      attendees: [{ name: "Me", email: "ME@example.com", partstat: "DECLINED" }],
+    });
+    expect(shouldKeepEventForParticipant(event, config)).toBe(false);
+  });
+
+  it("should keep accepted, tentative and unanswered invitations", () => {
+    for (const partstat of ["ACCEPTED", "TENTATIVE", "NEEDS-ACTION"] as const) {
+      const event = buildEvent({ attendees: [{ name: "Me", email: "me@example.com", partstat }] });
+      expect(shouldKeepEventForParticipant(event, config)).toBe(true);
+    }
+  });
+
+  it("should ignore other attendees declining", () => {
+    const event = buildEvent({
+      attendees: [{ name: "Bob", email: "bob@example.com", partstat: "DECLINED" }],
+    });
+    expect(shouldKeepEventForParticipant(event, config)).toBe(true);
+  });
+
+  it("should only keep my events when onlyMine is set", () => {
+    const onlyMine = { ...config, onlyMine: true };
+    const organized = buildEvent({ organizer: { name: "Me", email: "me@example.com" } });
+    const invited = buildEvent({ attendees: [{ name: "", email: "me@example.com" }] });
+    const other = buildEvent({ attendees: [{ name: "Bob", email: "bob@example.com" }] });
+
+    expect(shouldKeepEventForParticipant(organized, onlyMine)).toBe(true);
+    expect(shouldKeepEventForParticipant(invited, onlyMine)).toBe(true);
+    expect(shouldKeepEventForParticipant(other, onlyMine)).toBe(false);
+  });
+
+  it("should keep everything when no email is configured", async () => {
+    const event = buildEvent({
+      attendees: [{ name: "Me", email: "me@example.com", partstat: "DECLINED" }],
+    });
+    const events = await filterEventsByParticipation([event], { myEmails: [], onlyMine: true });
+
+    expect(events).toEqual([event]);
+  });
+});
+
+describe("parseICalContent categories", () => {
+  it("should read every CATEGORIES property and value", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:categorized",
+      "SUMMARY:Interview",
+      "DTSTART:20250115T100000Z",
+      "CATEGORIES:Client,1:1",
+      "CATEGORIES:Hiring,Client",
+      "END:VEVENT",
+    ]);
+    const [event] = await parseICalContent(content, "Work");
+
+    expect(event.categories).toEqual(["Client", "1:1", "Hiring"]);
+  });
+
+  it("should return no categories when the property is missing", async () => {
+    const content = buildCalendar(["BEGIN:VEVENT", "UID:plain", "DTSTART:20250115T100000Z", "END:VEVENT"]);
+    const [event] = await parseICalContent(content, "Work");
+
+    expect(event.categories).toEqual([]);
+  });
+});
+
+describe("parseICalComponents tasks", () => {
+  it("should parse VTODO components next to events", async () => {
+    const content = buildCalendar(
+      ["BEGIN:VEVENT", "UID:event", "SUMMARY:Meeting", "DTSTART:20250115T100000Z", "END:VEVENT"],
+      [
+        "BEGIN:VTODO",
+        "UID:todo-1",
+        "SUMMARY:Send report",
+        "DUE:20250120T170000Z",
+        "PRIORITY:1",
+        "STATUS:IN-PROCESS",
+        "CATEGORIES:Work",
+        "END:VTODO",
+      ],
+      [
+        "BEGIN:VTODO",
+        "UID:todo-2",
+        "SUMMARY:Renew passport",
+        "DUE;VALUE=DATE:20250201",
+        "STATUS:COMPLETED",
+        "COMPLETED:20250110T080000Z",
+        "END:VTODO",
+      ]
+    );
+    const { events, todos } = await parseICalComponents(content, "Work");
+
+    expect(events.map((e) => e.uid)).toEqual(["event"]);
+    expect(todos).toHaveLength(2);
+    expect(todos[0]).toMatchObject({
+      uid: "todo-1",
+      summary: "Send report",
+      due: new Date("2025-01-20T17:00:00Z"),
+      allDay: false,
+      completed: null,
+      status: "IN-PROCESS",
+      priority: 1,
+      categories: ["Work"],
+    });
+    expect(todos[1]).toMatchObject({
+      uid: "todo-2",
+      allDay: true,
+      status: "COMPLETED",
+      completed: new Date("2025-01-10T08:00:00Z"),
+    });
+    expect(todos[1].priority).toBeUndefined();
+  });
+
+  it("should skip tasks without UID", async () => {
+    const content = buildCalendar(["BEGIN:VTODO", "SUMMARY:No id", "END:VTODO"]);
+    const { todos } = await parseICalComponents(content, "Work");
+
+    expect(todos).toEqual([]);
+  });
+});
+
+describe("isTodoInDateRange", () => {
+  const config: DateRangeConfig = { daysPast: 7, daysFuture: 7 };
+  const buildTodo = (overrides: Partial<ICalTodo>): ICalTodo => ({
+    uid: "1",
+    summary: "Task",
+    description: "",
+    due: null,
+    completed: null,
+    url: "",
+    ...overrides,
+  });
+
+  it("should always keep open tasks", () => {
+    expect(isTodoInDateRange(buildTodo({}), config)).toBe(true);
+    expect(isTodoInDateRange(buildTodo({ due: daysFromToday(-100) }), config)).toBe(true);
+  });
+
+  it("should keep tasks completed inside the range", () => {
+    const todo = buildTodo({ status: "COMPLETED", completed: daysFromToday(-1) });
+    expect(isTodoInDateRange(todo, config)).toBe(true);
+  });
+
+  it("should drop tasks completed before the range", () => {
+    const completed = buildTodo({ status: "COMPLETED", completed: daysFromToday(-30) });
+    const cancelled = buildTodo({ status: "CANCELLED", due: daysFromToday(-30) });
+
+    expect(isTodoInDateRange(completed, config)).toBe(false);
+    expect(isTodoInDateRange(cancelled, config)).toBe(false);
+  });
+});
+
+describe("parseICalContent HTML descriptions", () => {
+  it("should read X-ALT-DESC with an HTML format type", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:html",
+      "SUMMARY:Review",
+      "DTSTART:20250115T100000Z",
+      "DESCRIPTION:Agenda",
+      "X-ALT-DESC;FMTTYPE=text/html:<p>Agenda</p>",
+      "END:VEVENT",
+    ]);
+    const [event] = await parseICalContent(content, "Work");
+
+    expect(event.description).toBe("Agenda");
+    expect(event.htmlDescription).toBe("<p>Agenda</p>");
+  });
+});
+
+describe("parseICalContent structured conference properties", () => {
+  const eventWith = (...lines: string[]) =>
+    buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:conference",
+      "SUMMARY:Sync",
+      "DTSTART:20250115T100000Z",
+      ...lines,
+      "END:VEVENT",
+    ]);
+
+  it("should prefer X-GOOGLE-CONFERENCE over links in the description", async () => {
+    const [event] = await parseICalContent(
+      eventWith(
+        "DESCRIPTION:Old link https://zoom.us/j/111111111",
+        "X-GOOGLE-CONFERENCE:https://meet.google.com/abc-defg-hij"
+      ),
+      "Work"
+    );
+
+    expect(event.meetingUrl).toBe("https://meet.google.com/abc-defg-hij");
+    expect(event.meetingUrlSource).toBe("x-google-conference");
+  });
+
+  it("should read the Teams meeting URL property", async () => {
+    const [event] = await parseICalContent(
+      eventWith("X-MICROSOFT-SKYPETEAMSMEETINGURL:https://teams.microsoft.com/l/meetup-join/19%3ameeting_abc"),
+      "Work"
+    );
+
+    expect(event.meetingUrl).toBe("https://teams.microsoft.com/l/meetup-join/19%3ameeting_abc");
+    expect(event.meetingUrlSource).toBe("x-microsoft-skypeteamsmeetingurl");
+  });
+
+  it("should read RFC 7986 CONFERENCE, preferring video links and skipping tel: URIs", async () => {
+    const [event] = await parseICalContent(
+      eventWith(
+        "CONFERENCE;VALUE=URI;FEATURE=PHONE:tel:+1-412-555-0123,,,654321",
+        "CONFERENCE;VALUE=URI;FEATURE=CHAT:https://chat.example.com/room",
+        "CONFERENCE;VALUE=URI;FEATURE=AUDIO,VIDEO:https://video.example.com/room"
+      ),
+      "Work"
+    );
+
+    expect(event.meetingUrl).toBe("https://video.example.com/room");
+    expect(event.meetingUrlSource).toBe("conference");
+  });
+
+  it("should fall back to pattern matching and record the field", async () => {
+    const [inLocation] = await parseICalContent(eventWith("LOCATION:https://zoom.us/j/123456789"), "Work");
+    const [inDescription] = await parseICalContent(
+      eventWith("DESCRIPTION:Join https://meet.google.com/abc-defg-hij"),
+      "Work"
+    );
+    const [none] = await parseICalContent(eventWith("LOCATION:Room 4"), "Work");
+
+    expect(inLocation.meetingUrlSource).toBe("location");
+    expect(inDescription.meetingUrlSource).toBe("description");
+    expect(none.meetingUrl).toBeUndefined();
+    expect(none.meetingUrlSource).toBeUndefined();
+  });
+});
+
+describe("custom meeting URL patterns", () => {
+  const customPatterns = [{ name: "Acme Video", pattern: /https:\/\/video\.acme\.com\/room\/\w+/i }];
+
+  it("should match custom patterns before built-in ones", () => {
+    const text = "Zoom https://zoom.us/j/123456789 or https://video.acme.com/room/team";
+
+    expect(extractMeetingUrlWithService(text, customPatterns)).toEqual({
+      url: "https://video.acme.com/room/team",
+      service: "Acme Video",
+    });
+    expect(extractMeetingUrlWithService(text)?.service).toBe("Zoom");
+  });
+
+  it("should still use built-in patterns when no custom pattern matches", () => {
+    expect(extractMeetingUrl("https://meet.google.com/abc-defg-hij", customPatterns)).toBe(
+      "https://meet.google.com/abc-defg-hij"
+    );
+  });
+
+  it("should apply custom patterns while parsing", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:custom",
+      "DTSTART:20250115T100000Z",
+      "LOCATION:https://video.acme.com/room/team",
+      "END:VEVENT",
+    ]);
+    const [event] = await parseICalContent(content, "Work", { meetingUrlPatterns: customPatterns });
+
+    expect(event.meetingUrl).toBe("https://video.acme.com/room/team");
+    expect(event.meetingUrlSource).toBe("location");
+  });
+});
+
+describe("extractAllMeetingUrls", () => {
+  it("should return every link with its service", () => {
+    const text = "Zoom https://zoom.us/j/111111111 backup https://zoom.us/j/222222222 or https://meet.google.com/abc-defg-hij";
+
+    expect(extractAllMeetingUrls(text)).toEqual([
+      { url: "https://zoom.us/j/111111111", service: "Zoom" },
+      { url: "https://zoom.us/j/222222222", service: "Zoom" },
+      { url: "https://meet.google.com/abc-defg-hij", service: "Google Meet" },
+    ]);
+  });
+
+  it("should return an empty list without links", () => {
+    expect(extractAllMeetingUrls("Room 4")).toEqual([]);
+    expect(extractAllMeetingUrls(undefined)).toEqual([]);
+  });
+});
+
+describe("parseICalContent meeting links", () => {
+  it("should list all conference links with the main link first", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:links",
+      "DTSTART:20250115T100000Z",
+      "LOCATION:https://zoom.us/j/111111111",
+      "DESCRIPTION:Fallback https://teams.microsoft.com/l/meetup-join/abc or https://zoom.us/j/111111111",
+      "X-GOOGLE-CONFERENCE:https://meet.google.com/abc-defg-hij",
+      "END:VEVENT",
+    ]);
+    const [event] = await parseICalContent(content, "Work");
+
+    expect(event.meetingUrl).toBe("https://meet.google.com/abc-defg-hij");
+    expect(event.meetingLinks).toEqual([
+      { url: "https://meet.google.com/abc-defg-hij", service: "Google Meet", source: "x-google-conference" },
+      { url: "https://zoom.us/j/111111111", service: "Zoom", source: "location" },
+      { url: "https://teams.microsoft.com/l/meetup-join/abc", service: "Microsoft Teams", source: "description" },
+    ]);
+  });
+
+  it("should name CONFERENCE links by pattern, then label", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:conference-links",
+      "DTSTART:20250115T100000Z",
+      "CONFERENCE;VALUE=URI;FEATURE=VIDEO:https://zoom.us/j/333333333",
+      "CONFERENCE;VALUE=URI;FEATURE=VIDEO;LABEL=Backup room:https://video.example.com/room",
+      "END:VEVENT",
+    ]);
+    const [event] = await parseICalContent(content, "Work");
+
+    expect(event.meetingLinks?.map((link) => link.service)).toEqual(["Zoom", "Backup room"]);
+  });
+});
+
+describe("private events", () => {
+  const privateEvent: ICalEvent = {
+    uid: "private-1",
+    summary: "Doctor appointment",
+    description: "Bring test results",
+    htmlDescription: "<p>Bring test results</p>",
+    dtstart: new Date(Date.UTC(2025, 0, 15, 10)),
+    dtend: new Date(Date.UTC(2025, 0, 15, 11)),
+    location: "Clinic, 5th Avenue",
+    url: "https://clinic.example.com/booking/42",
+    meetingUrl: "https://zoom.us/j/123456789",
+    attendees: [{ name: "Dr. Smith", email: "smith@clinic.example.com" }],
+    organizer: { name: "Dr. Smith", email: "smith@clinic.example.com" },
+    categories: ["Health"],
+    status: "CONFIRMED",
+    classification: "PRIVATE",
+  };
+
+  it("should parse the CLASS property", async () => {
+    const content = buildCalendar(
+      ["BEGIN:VEVENT", "UID:a", "DTSTART:20250115T100000Z", "CLASS:CONFIDENTIAL", "END:VEVENT"],
+      ["BEGIN:VEVENT", "UID:b", "DTSTART:20250115T100000Z", "CLASS:X-UNKNOWN", "END:VEVENT"]
+    );
+    const events = await parseICalContent(content, "Work");
+
+    expect(events.map((event) => event.classification)).toEqual(["CONFIDENTIAL", undefined]);
+  });
+
+  it("should keep private events untouched with the show policy", () => {
+    expect(redactPrivateEvent(privateEvent)).toBe(privateEvent);
+    expect(redactPrivateEvent(privateEvent, "show")).toBe(privateEvent);
+  });
+
+  it("should keep public events untouched with any policy", () => {
+    const publicEvent: ICalEvent = { ...privateEvent, classification: "PUBLIC" };
+    expect(redactPrivateEvent(publicEvent, "busy")).toBe(publicEvent);
+    expect(redactPrivateEvent(publicEvent, "skip")).toBe(publicEvent);
+  });
+
+  it("should replace private events by busy time", () => {
+    expect(redactPrivateEvent(privateEvent, "busy")).toEqual({
+      uid: "private-1",
+      summary: "Busy",
+      description: "",
+      dtstart: privateEvent.dtstart,
+      dtend: privateEvent.dtend,
+      location: "",
+      url: "",
+      attendees: [],
+      status: "CONFIRMED",
+      classification: "PRIVATE",
+    });
+  });
+
+  it("should keep only time and title", () => {
+    const redacted = redactPrivateEvent({ ...privateEvent, classification: "CONFIDENTIAL" }, "title");
+
+    expect(redacted?.summary).toBe("Doctor appointment");
+    expect(redacted?.description).toBe("");
+    expect(redacted?.htmlDescription).toBeUndefined();
+    expect(redacted?.meetingUrl).toBeUndefined();
+    expect(redacted?.organizer).toBeUndefined();
+    expect(redacted?.categories).toBeUndefined();
+  });
+
+  it("should skip private events", () => {
+    expect(redactPrivateEvent(privateEvent, "skip")).toBeUndefined();
+  });
+
+  it("should redact private tasks", () => {
+    const todo: ICalTodo = {
+      uid: "todo-private",
+      summary: "Pay rent",
+      description: "IBAN DE00 1234",
+      due: new Date(Date.UTC(2025, 0, 31)),
+      completed: null,
+      url: "https://bank.example.com",
+      categories: ["Finance"],
+      classification: "PRIVATE",
+    };
+
+    expect(redactPrivateTodo(todo, "busy")).toEqual({
+      uid: "todo-private",
+      summary: "Busy",
+      description: "",
+      due: todo.due,
+      completed: null,
+      url: "",
+      classification: "PRIVATE",
+    });
+    expect(redactPrivateTodo(todo, "skip")).toBeUndefined();
+  });
+});
+
+describe("parseICalComponents diagnostics", () => {
+  it("should report no problems for a clean calendar", async () => {
+    const content = buildCalendar(["BEGIN:VEVENT", "UID:ok", "DTSTART:20250115T100000Z", "END:VEVENT"]);
+    const { events, diagnostics } = await parseICalComponents(content, "Work");
+
+    expect(events).toHaveLength(1);
+    expect(diagnostics).toEqual({ skipped: [], warnings: [] });
+  });
+
+  it("should skip components without UID or DTSTART and say why", async () => {
+    const content = buildCalendar(
+      ["BEGIN:VEVENT", "SUMMARY:No UID", "DTSTART:20250115T100000Z", "END:VEVENT"],
+      ["BEGIN:VEVENT", "UID:no-start", "SUMMARY:No start", "END:VEVENT"],
+      ["BEGIN:VEVENT", "UID:ok", "DTSTART:20250115T100000Z", "END:VEVENT"],
+      ["BEGIN:VTODO", "SUMMARY:Orphan task", "END:VTODO"]
+    );
+    const { events, todos, diagnostics } = await parseICalComponents(content, "Work");
+
+    expect(events.map((event) => event.uid)).toEqual(["ok"]);
+    expect(todos).toEqual([]);
+    expect(diagnostics.skipped).toEqual([
+      { component: "VEVENT", reason: "missing-uid", summary: "No UID" },
+      { component: "VEVENT", reason: "invalid-dtstart", uid: "no-start", summary: "No start" },
+      { component: "VTODO", reason: "missing-uid", summary: "Orphan task" },
+    ]);
+  });
+
+  it("should keep events with an unknown TZID and warn about them", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:custom-zone",
+      "DTSTART;TZID=Made Up Standard Time:20250115T100000",
+      "END:VEVENT",
+    ]);
+    const { events, diagnostics } = await parseICalComponents(content, "Work", { timeZone: "UTC" });
+
+    expect(events[0].dtstart!.toISOString()).toBe("2025-01-15T10:00:00.000Z");
+    expect(diagnostics.skipped).toEqual([]);
+    expect(diagnostics.warnings).toEqual([{ component: "VEVENT", reason: "unknown-tzid", uid: "custom-zone" }]);
+  });
+
+  it("should report fatal parse errors", async () => {
+    const { events, diagnostics } = await parseICalComponents("not a calendar", "Work");
+
+    expect(events).toEqual([]);
+    expect(diagnostics.fatalError).toEqual(expect.any(String));
+  });
+});
+
+describe("parseICalComponents lenient parsing", () => {
+  const readFixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf-8");
+
+  it("should repair bare LF line endings and broken line folding", async () => {
+    const { events, diagnostics } = await parseICalComponents(readFixture("exchange-bare-lf.ics"), "Work");
+
+    expect(events).toHaveLength(1);
+    expect(events[0].summary).toBe("Quarterly planning with the regional sales leadership team");
+    expect(events[0].description).toBe(
+      "Agenda: review the pipeline and the targets for the next quarter and agree on owners"
+    );
+    expect(events[0].location).toBe("Room 4");
+    expect(diagnostics.repairs).toEqual(["bom", "line-endings", "line-folding"]);
+  });
+
+  it("should keep folded whitespace on blank continuation lines", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:folded@example.com",
+      "DTSTART:20250115T100000Z",
+      "DESCRIPTION:Bring the",
+      "  ",
+      " slides",
+      "END:VEVENT",
+      "  ",
+    ]).replace(/\r\n/g, "\n");
+    const { events, diagnostics } = await parseICalComponents(content, "Work");
+
+    expect(events[0].description).toBe("Bring the slides");
+    expect(diagnostics.repairs).toEqual(["line-endings"]);
+  });
+
+  it("should quote parameter values with unescaped commas and colons", async () => {
+    const { events, diagnostics } = await parseICalComponents(readFixture("booking-unescaped.ics"), "Work");
+
+    expect(events[0].summary).toBe("Consultation, 30 minutes");
+    expect(events[0].location).toBe("Main Street 1, Springfield");
+    expect(events[0].organizer).toMatchObject({ name: "Support: Team, EMEA", email: "support@booking.example.com" });
+    expect(events[0].attendees).toMatchObject([{ name: "Doe, Jane", email: "jane@example.com", partstat: "ACCEPTED" }]);
+    expect(diagnostics.repairs).toEqual(["parameter-quoting"]);
+  });
+
+  it("should merge concatenated calendars", async () => {
+    const { events, diagnostics } = await parseICalComponents(readFixture("concatenated.ics"), "Work");
+
+    expect(events.map((event) => event.uid)).toEqual(["first@example.com", "second@example.com"]);
+    expect(diagnostics.repairs).toEqual(["concatenated-calendars"]);
+  });
+
+  it("should parse components one at a time when one of them is broken", async () => {
+    const { events, diagnostics } = await parseICalComponents(readFixture("broken-component.ics"), "Work");
+
+    expect(events.map((event) => event.summary)).toEqual(["Standup", "Retro"]);
+    expect(diagnostics.fatalError).toBeUndefined();
+    expect(diagnostics.skipped).toEqual([
+      {
+        component: "VEVENT",
+        reason: "invalid-component",
+        uid: "broken@example.com",
+        summary: "Sometimes meeting",
+        message: expect.stringContaining("SOMETIMES"),
+      },
+    ]);
+  });
+
+  it("should leave valid calendars untouched", async () => {
+    const content = buildCalendar([
+      "BEGIN:VEVENT",
+      "UID:folded",
+      "DTSTART:20250115T100000Z",
+      "SUMMARY:A long title that is folded",
+      "  onto the next line",
+      "ATTENDEE;CN=\"Doe, Jane\":mailto:jane@example.com",
+      "END:VEVENT",
+    ]);
+    const { events, diagnostics } = await parseICalComponents(content, "Work");
+
+    expect(events[0].summary).toBe("A long title that is folded onto the next line");
+    expect(events[0].attendees[0].name).toBe("Doe, Jane");
+    expect(diagnostics.repairs).toBeUndefined();
+  });
+});
+
+describe("resolveFetchUrls", () => {
+  it("should fetch http and https URLs as-is", () => {
+    expect(resolveFetchUrls("https://example.com/cal.ics")).toEqual(["https://example.com/cal.ics"]);
+    expect(resolveFetchUrls("http://example.com/cal.ics")).toEqual(["http://example.com/cal.ics"]);
+  });
+
+  it("should fetch webcal URLs over https with an http fallback", () => {
+    expect(resolveFetchUrls("webcal://example.com/cal.ics?token=1")).toEqual([
+      "https://example.com/cal.ics?token=1",
+      "http://example.com/cal.ics?token=1",
+    ]);
+  });
+
+  it("should fetch webcals URLs over https only", () => {
+    expect(resolveFetchUrls("WEBCALS://example.com/cal.ics")).toEqual(["https://example.com/cal.ics"]);
+  });
+
+  it("should not fall back to http for calendars with credentials", () => {
+    expect(resolveFetchUrls("webcal://example.com/cal.ics", true)).toEqual(["https://example.com/cal.ics"]);
+  });
+});
+
+describe("fetchAllCalendars", () => {
+  const calendarBody = (uid: string) =>
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "BEGIN:VEVENT",
+      `UID:${uid}`,
+      "DTSTART:20250110T100000Z",
+      "DTEND:20250110T110000Z",
+      `SUMMARY:${uid}`,
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const flakyFailed = new Set<string>();
+
+  beforeEach(() => {
+    clearCalendarCache();
+    flakyFailed.clear();
+    inFlight = 0;
+    maxInFlight = 0;
+    vi.stubGlobal("window", { roamAlphaAPI: { constants: { corsAnywhereProxyUrl: "https://proxy.example" } } });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        const name = input.slice(input.lastIndexOf("/") + 1).replace(".ics", "");
+        // Earlier calendars answer last, so completion order differs from configuration order
+        await new Promise((resolve) => setTimeout(resolve, 50 - Number(name.replace(/\D/g, "")) * 5));
+        inFlight--;
+        if (name.startsWith("broken")) {
+          return new Response("Not found", { status: 404, statusText: "Not Found" });
+        }
+        if (name.startsWith("flaky") && !flakyFailed.has(name)) {
+          flakyFailed.add(name);
+          return new Response("", { status: 503, statusText: "Service Unavailable", headers: { "Retry-After": "0" } });
+        }
+        return new Response(calendarBody(name), { status: 200 });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const configs = (names: string[]) =>
+    names.map((name) => ({ name, url: `https://example.com/${name}.ics` }));
+
+  it("should limit the number of simultaneous downloads", async () => {
+    const names = ["pool1", "pool2", "pool3", "pool4", "pool5", "pool6"];
+    const result = await fetchAllCalendars(configs(names), true, {}, 2);
+
+    expect(maxInFlight).toBe(2);
+    expect(result.calendars).toHaveLength(6);
+  });
+
+  it("should keep results in configuration order", async () => {
+    const names = ["order1", "order2", "order3", "order4"];
+    const result = await fetchAllCalendars(configs(names), true, {}, 4);
+
+    expect(maxInFlight).toBe(4);
+    expect(result.calendars.map((calendar) => calendar.name)).toEqual(names);
+    expect(result.calendars.map((calendar) => calendar.events[0].summary)).toEqual(names);
+  });
+
+  it("should count failed calendars without stopping the others", async () => {
+    const names = ["stats1", "broken2", "stats3"];
+    const result = await fetchAllCalendars(configs(names), true, {}, 3);
+
+    expect(result.calendars.map((calendar) => calendar.name)).toEqual(["stats1", "stats3"]);
+    expect(result.stats).toEqual({ total: 3, changed: 2, cached: 0, failed: 1 });
+  });
+
+  it("should report permanent errors without retrying", async () => {
+    const result = await fetchAllCalendars(configs(["broken1"]), true);
+
+    // Once through the proxy (which may be the one refusing), then once directly
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(result.failures).toEqual([
+      expect.objectContaining({ name: "broken1", kind: "permanent", status: 404, attempts: 2 }),
+    ]);
+  });
+
+  it("should retry transient errors and record them", async () => {
+    const result = await fetchAllCalendars(configs(["flaky1"]), true);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(result.failures).toEqual([]);
+    expect(result.calendars[0].events).toHaveLength(1);
+    expect(result.calendars[0].fetchErrors).toEqual([
+      expect.objectContaining({ kind: "retryable", status: 503, message: "HTTP 503: Service Unavailable" }),
+    ]);
+  });
+
+  it("should never send credentials to an http URL", async () => {
+    const auth = { type: "bearer" as const, token: "secret-token" };
+    const result = await fetchAllCalendars(
+      [{ name: "broken1", url: "webcal://example.com/broken1.ics", auth }],
+      true
+    );
+
+    expect(result.failures).toHaveLength(1);
+    const urls = vi.mocked(fetch).mock.calls.map(([input]) => String(input));
+    expect(urls.length).toBeGreaterThan(0);
+    expect(urls.some((url) => decodeURIComponent(url).includes("http://"))).toBe(false);
+  });
+
+  it("should download one calendar at a time with a limit of 1", async () => {
+    await fetchAllCalendars(configs(["serial1", "serial2", "serial3"]), true, {}, 1);
+
+    expect(maxInFlight).toBe(1);
+  });
+});
@@ -2,8 +2,18 @@ import { describe, it, expect } from "vitest";
 import {
   isValidUrl,
   parseCalendarsConfig,
+  parseTimeFormat,
+  parseCancelledEventsMode,
+  parseFetchTransport,
+  parseCalendarCredentials,
+  parseEmailList,
+  parseAliases,
+  parseTasksPage,
+  parseMeetingUrlPatterns,
+  resolveDisplayTimeZone,
   validateCalendarUrl,
 } from "../src/settings";
+import { getDefaultTimeZone } from "../src/timezone";
 
 describe("isValidUrl", () => {
   it("should return true for valid HTTP URLs", () => {
@@ -22,6 +32,11 @@ describe("isValidUrl", () => {
     expect(isValidUrl("https://example.com/calendar?key=value")).toBe(true);
   });
 
+  it("should return true for webcal and webcals subscription links", () => {
+    expect(isValidUrl("webcal://p52-caldav.icloud.com/published/2/abc")).toBe(true);
+    expect(isValidUrl("webcals://example.com/calendar.ics")).toBe(true);
+  });
+
   it("should return false for FTP URLs", () => {
     expect(isValidUrl("ftp://example.com")).toBe(false);
   });
@@ -166,6 +181,53 @@ Personal|https://personal.com/cal.ics`;
 
     expect(result.calendars).toHaveLength(2);
   });
+
+  it("should keep webcal URLs as written", () => {
+    const result = parseCalendarsConfig("Holidays|webcal://example.com/holidays.ics\nwebcals://cal.example.org/team.ics");
+
+    expect(result.calendars).toEqual([
+      { name: "Holidays", url: "webcal://example.com/holidays.ics" },
+      { name: "cal.example.org", url: "webcals://cal.example.org/team.ics" },
+    ]);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it("should parse the private events option", () => {
+    const result = parseCalendarsConfig("Personal|https://example.com/cal.ics|private=busy");
+
+    expect(result.calendars).toEqual([
+      { name: "Personal", url: "https://example.com/cal.ics", privateEvents: "busy" },
+    ]);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it("should accept option names and values in any case", () => {
+    const result = parseCalendarsConfig("Personal|https://example.com/cal.ics| Private=SKIP ");
+
+    expect(result.calendars[0].privateEvents).toBe("skip");
+  });
+
+  it("should parse the source option", () => {
+    const result = parseCalendarsConfig("Nextcloud|https://cloud.example.com/remote.php/dav/|source=caldav");
+
+    expect(result.calendars).toEqual([
+      { name: "Nextcloud", url: "https://cloud.example.com/remote.php/dav/", source: "caldav" },
+    ]);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it("should report invalid calendar options", () => {
+    const result = parseCalendarsConfig(
+      "A|https://example.com/a.ics|private=hidden\nB|https://example.com/b.ics|color=red\nC|https://example.com/c|source=webdav"
+    );
+
+    expect(result.calendars).toHaveLength(0);
+    expect(result.errors.map((e) => e.error)).toEqual([
+      'Invalid private option "hidden" (use show, busy, title or skip)',
+      'Unknown calendar option "color"',
+      'Invalid source option "webdav" (use ics or caldav)',
+    ]);
+  });
 });
 
 describe("validateCalendarUrl", () => {
@@ -220,3 +282,163 @@ describe("validateCalendarUrl", () => {
     expect(result.valid).toBe(true);
   });
 });
+
+describe("resolveDisplayTimeZone", () => {
+  it("should return valid timezone names unchanged", () => {
+    expect(resolveDisplayTimeZone("America/New_York")).toBe("America/New_York");
+  });
+
+  it("should trim whitespace", () => {
+    expect(resolveDisplayTimeZone("  Europe/Berlin ")).toBe("Europe/Berlin");
+  });
+
+  it("should fall back to the browser timezone when empty", () => {
+    expect(resolveDisplayTimeZone("")).toBe(getDefaultTimeZone());
+  });
+
+  it("should fall back to the browser timezone when invalid", () => {
+    expect(resolveDisplayTimeZone("Not/A_Zone")).toBe(getDefaultTimeZone());
+  });
+});
+
+describe("parseTimeFormat", () => {
+  it("should accept 12h", () => {
+    expect(parseTimeFormat("12h")).toBe("12h");
+    expect(parseTimeFormat(" 12H ")).toBe("12h");
+  });
+
+  it("should default to 24h", () => {
+    expect(parseTimeFormat("24h")).toBe("24h");
+    expect(parseTimeFormat("")).toBe("24h");
+    expect(parseTimeFormat("am/pm")).toBe("24h");
+  });
+});
+
+describe("parseCancelledEventsMode", () => {
+  it("should accept known modes", () => {
+    expect(parseCancelledEventsMode("skip")).toBe("skip");
+    expect(parseCancelledEventsMode("Tag")).toBe("tag");
+    expect(parseCancelledEventsMode(" strikethrough ")).toBe("strikethrough");
+  });
+
+  it("should fall back to strikethrough for unknown values", () => {
+    expect(parseCancelledEventsMode("hide")).toBe("strikethrough");
+    expect(parseCancelledEventsMode("")).toBe("strikethrough");
+  });
+});
+
+describe("parseFetchTransport", () => {
+  it("should accept known transports", () => {
+    expect(parseFetchTransport("direct")).toBe("direct");
+    expect(parseFetchTransport(" Custom-Proxy ")).toBe("custom-proxy");
+    expect(parseFetchTransport("roam-proxy")).toBe("roam-proxy");
+  });
+
+  it("should fall back to the Roam proxy for unknown values", () => {
+    expect(parseFetchTransport("socks")).toBe("roam-proxy");
+    expect(parseFetchTransport("")).toBe("roam-proxy");
+  });
+});
+
+describe("parseCalendarCredentials", () => {
+  it("should parse basic and bearer credentials", () => {
+    const result = parseCalendarCredentials("Nextcloud|basic|alice|s3cret\nRadicale|Bearer|abc.def");
+
+    expect(result.errors).toEqual([]);
+    expect(result.credentials.get("nextcloud")).toEqual({ type: "basic", username: "alice", password: "s3cret" });
+    expect(result.credentials.get("radicale")).toEqual({ type: "bearer", token: "abc.def" });
+  });
+
+  it("should keep pipes in passwords", () => {
+    const result = parseCalendarCredentials("Work|basic|bob|pa|ss");
+    expect(result.credentials.get("work")).toEqual({ type: "basic", username: "bob", password: "pa|ss" });
+  });
+
+  it("should skip comments and empty lines", () => {
+    expect(parseCalendarCredentials("# Work|basic|bob|secret\n\n").credentials.size).toBe(0);
+  });
+
+  it("should mask secrets in errors", () => {
+    const result = parseCalendarCredentials("Work|digest|bob|secret\nHome|basic|carol\ntoken-without-name");
+
+    expect(result.credentials.size).toBe(0);
+    expect(result.errors).toEqual([
+      { line: "Work|digest|****", error: 'Unknown authentication type "digest" (use basic or bearer)' },
+      { line: "Home|basic|carol", error: "Missing user name or password (format: Name|basic|user|password)" },
+      { line: "****", error: 'Unknown authentication type "" (use basic or bearer)' },
+    ]);
+    expect(JSON.stringify(result.errors)).not.toContain("secret");
+  });
+});
+
+describe("parseEmailList", () => {
+  it("should split lines and commas", () => {
+    expect(parseEmailList("me@example.com\nwork@example.com, other@example.com")).toEqual([
+      "me@example.com",
+      "work@example.com",
+      "other@example.com",
+    ]);
+  });
+
+  it("should normalize case, strip mailto: and remove duplicates", () => {
+    expect(parseEmailList("mailto:Me@Example.com\nme@example.com")).toEqual(["me@example.com"]);
+  });
+
+  it("should skip invalid entries", () => {
+    expect(parseEmailList("not-an-email\n\n")).toEqual([]);
+  });
+});
+
+describe("parseAliases", () => {
+  it("should map lowercased keys to pages", () => {
+    const aliases = parseAliases("Hiring;Recruiting 2025\n  Client ; Acme Project  \ninvalid line");
+
+    expect(Array.from(aliases.entries())).toEqual([
+      ["hiring", "Recruiting 2025"],
+      ["client", "Acme Project"],
+    ]);
+  });
+});
+
+describe("parseTasksPage", () => {
+  it("should trim the page name", () => {
+    expect(parseTasksPage(" Tasks ")).toBe("Tasks");
+  });
+
+  it("should remove slashes", () => {
+    expect(parseTasksPage("my/tasks")).toBe("mytasks");
+  });
+
+  it("should allow disabling tasks with an empty value", () => {
+    expect(parseTasksPage("")).toBe("");
+  });
+});
+
+describe("parseMeetingUrlPatterns", () => {
+  it("should parse Name|regex lines into case-insensitive patterns", () => {
+    const { patterns, errors } = parseMeetingUrlPatterns(
+      "Acme Video|https://video\\.acme\\.com/room/\\w+\n# comment\nIntranet|(?i)https://meet\\.corp/\\d+"
+    );
+
+    expect(errors).toEqual([]);
+    expect(patterns.map((p) => p.name)).toEqual(["Acme Video", "Intranet"]);
+    expect(patterns[0].pattern.test("HTTPS://VIDEO.ACME.COM/room/abc")).toBe(true);
+    expect(patterns[1].pattern.source).toBe("https:\\/\\/meet\\.corp\\/\\d+");
+  });
+
+  it("should report invalid lines", () => {
+    const { patterns, errors } = parseMeetingUrlPatterns("no-name-here\n|https://x\nBroken|https://x/(\nEmpty|");
+
+    expect(patterns).toEqual([]);
+    expect(errors.map((e) => e.error)).toEqual([
+      "Missing name (format: Name|regex)",
+      "Pattern name is empty",
+      expect.stringContaining("Invalid regex"),
+      "Pattern is empty",
+    ]);
+  });
+
+  it("should return nothing for empty input", () => {
+    expect(parseMeetingUrlPatterns("")).toEqual({ patterns: [], errors: [] });
+  });
+});
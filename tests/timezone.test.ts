@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  getZonedDateParts,
+  isValidTimeZone,
+  startOfDayInZone,
+  zonedTimeToDate,
+} from "../src/timezone";
+
+describe("isValidTimeZone", () => {
+  it("should accept IANA timezone names", () => {
+    expect(isValidTimeZone("America/New_York")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+  });
+
+  it("should reject unknown or empty names", () => {
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+    expect(isValidTimeZone(undefined)).toBe(false);
+  });
+});
+
+describe("getZonedDateParts", () => {
+  it("should return the wall-clock time in the timezone", () => {
+    const instant = new Date(Date.UTC(2025, 0, 2, 23, 30));
+
+    expect(getZonedDateParts(instant, "UTC")).toEqual({
+      year: 2025, month: 1, day: 2, hour: 23, minute: 30, second: 0,
+    });
+    expect(getZonedDateParts(instant, "Europe/Berlin")).toMatchObject({ day: 3, hour: 0, minute: 30 });
+    expect(getZonedDateParts(instant, "America/Los_Angeles")).toMatchObject({ day: 2, hour: 15 });
+  });
+});
+
+describe("zonedTimeToDate", () => {
+  it("should convert wall-clock time to the matching instant", () => {
+    const date = zonedTimeToDate({ year: 2025, month: 1, day: 2, hour: 9 }, "America/New_York");
+    expect(date.toISOString()).toBe("2025-01-02T14:00:00.000Z");
+  });
+
+  it("should use the daylight saving offset in summer", () => {
+    const date = zonedTimeToDate({ year: 2025, month: 7, day: 2, hour: 9 }, "America/New_York");
+    expect(date.toISOString()).toBe("2025-07-02T13:00:00.000Z");
+  });
+
+  it("should default missing time fields to midnight", () => {
+    const date = zonedTimeToDate({ year: 2025, month: 3, day: 10 }, "Asia/Tokyo");
+    expect(date.toISOString()).toBe("2025-03-09T15:00:00.000Z");
+  });
+
+  it("should overflow days like Date.UTC", () => {
+    const date = zonedTimeToDate({ year: 2025, month: 1, day: 32 }, "UTC");
+    expect(date.toISOString()).toBe("2025-02-01T00:00:00.000Z");
+  });
+});
+
+describe("startOfDayInZone", () => {
+  it("should return midnight of the zoned day", () => {
+    const instant = new Date(Date.UTC(2025, 0, 2, 23, 30));
+
+    expect(startOfDayInZone(instant, "Europe/Berlin").toISOString()).toBe("2025-01-02T23:00:00.000Z");
+    expect(startOfDayInZone(instant, "UTC", -1).toISOString()).toBe("2025-01-01T00:00:00.000Z");
+  });
+});